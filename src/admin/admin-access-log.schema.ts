@@ -0,0 +1,30 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { HydratedDocument } from 'mongoose';
+import type { Role } from '../common/types/auth';
+import { ROLES } from '../common/config/roles';
+
+export type AdminAccessLogDocument = HydratedDocument<AdminAccessLog>;
+
+/** Audit trail of every admin view that exposed decrypted PII */
+@Schema({ timestamps: { createdAt: true, updatedAt: false } })
+export class AdminAccessLog {
+  @Prop({ required: true, index: true })
+  actor: string; // user id
+
+  @Prop({ type: String, enum: ROLES, required: true })
+  role: Role;
+
+  @Prop({ required: true })
+  action: string; // e.g. 'list_leads', 'view_lead'
+
+  @Prop({ type: [String], default: [], index: true })
+  leadIds: string[];
+
+  @Prop({ type: Object, default: {} })
+  query: Record<string, unknown>;
+
+  @Prop()
+  ip?: string;
+}
+
+export const AdminAccessLogSchema = SchemaFactory.createForClass(AdminAccessLog);
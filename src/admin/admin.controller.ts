@@ -0,0 +1,69 @@
+import { Controller, Get, Param, Post, Query, Req, StreamableFile, UseGuards } from '@nestjs/common';
+import { AdminService } from './admin.service';
+import { AuthGuard } from '../auth/auth.guard';
+import { Roles } from '../auth/roles.decorator';
+import { AdminListQueryDto } from './dto/admin-list-query.dto';
+import { AdminExportQueryDto } from './dto/admin-export-query.dto';
+import { AdminJobQueryDto } from './dto/admin-job-query.dto';
+import type { AuthenticatedRequest } from '../common/types/auth';
+
+@Controller('admin')
+@UseGuards(AuthGuard)
+@Roles('admin', 'sales', 'analyst')
+export class AdminController {
+  constructor(private adminService: AdminService) {}
+
+  @Get('leads')
+  async leads(@Query() query: AdminListQueryDto, @Req() req: AuthenticatedRequest) {
+    return this.adminService.listLeads(query, req.user!, req.ip);
+  }
+
+  @Get('leads/export')
+  async exportLeads(@Query() query: AdminExportQueryDto, @Req() req: AuthenticatedRequest) {
+    const stream = await this.adminService.exportLeads(query, req.user!, req.ip);
+    const date = new Date().toISOString().slice(0, 10);
+
+    return new StreamableFile(stream, {
+      type: query.format === 'csv' ? 'text/csv; charset=utf-8' : 'application/x-ndjson',
+      disposition: `attachment; filename="leads-${date}.${query.format}"`,
+    });
+  }
+
+  @Get('leads/:leadId')
+  async lead(@Param('leadId') leadId: string, @Req() req: AuthenticatedRequest) {
+    return this.adminService.getLead(leadId, req.user!, req.ip);
+  }
+
+  @Post('leads/:leadId/booked')
+  @Roles('admin', 'sales')
+  async markBooked(@Param('leadId') leadId: string) {
+    return this.adminService.markLeadBooked(leadId);
+  }
+
+  @Post('leads/:leadId/unsubscribe')
+  @Roles('admin', 'sales')
+  async unsubscribe(@Param('leadId') leadId: string) {
+    return this.adminService.unsubscribeLead(leadId);
+  }
+
+  @Get('responses')
+  async responses(@Query() query: AdminListQueryDto) {
+    return this.adminService.listResponses(query);
+  }
+
+  @Get('reports')
+  async reports(@Query() query: AdminListQueryDto) {
+    return this.adminService.listReports(query);
+  }
+
+  @Get('jobs')
+  async jobs(@Query() query: AdminJobQueryDto) {
+    return this.adminService.listJobs(query);
+  }
+
+  @Post('jobs/:jobId/retry')
+  @Roles('admin')
+  async retryJob(@Param('jobId') jobId: string) {
+    return this.adminService.retryJob(jobId);
+  }
+}
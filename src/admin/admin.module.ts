@@ -0,0 +1,28 @@
+import { Module } from '@nestjs/common';
+import { MongooseModule } from '@nestjs/mongoose';
+import { AdminAccessLog, AdminAccessLogSchema } from './admin-access-log.schema';
+import { AdminController } from './admin.controller';
+import { AdminService } from './admin.service';
+import { LeadModule } from '../lead/lead.module';
+import { QuizModule } from '../quiz/quiz.module';
+import { ReportModule } from '../report/report.module';
+import { AuthModule } from '../auth/auth.module';
+import { JobModule } from '../job/job.module';
+import { NurtureModule } from '../nurture/nurture.module';
+import { EmailModule } from '../email/email.module';
+
+@Module({
+  imports: [
+    MongooseModule.forFeature([{ name: AdminAccessLog.name, schema: AdminAccessLogSchema }]),
+    LeadModule,
+    QuizModule,
+    ReportModule,
+    AuthModule,
+    JobModule,
+    NurtureModule,
+    EmailModule,
+  ],
+  controllers: [AdminController],
+  providers: [AdminService],
+})
+export class AdminModule {}
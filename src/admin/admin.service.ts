@@ -0,0 +1,485 @@
+import { Injectable, Logger, NotFoundException } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { FilterQuery, Model } from 'mongoose';
+import { Readable } from 'stream';
+import { Lead, LeadDocument } from '../lead/lead.schema';
+import { QuizResponse, QuizResponseDocument } from '../quiz/quiz-response.schema';
+import { Report, ReportDocument } from '../report/report.schema';
+import { AdminAccessLog, AdminAccessLogDocument } from './admin-access-log.schema';
+import { Job, JobDocument } from '../job/job.schema';
+import { EmailDelivery, EmailDeliveryDocument } from '../email/email-delivery.schema';
+import { AdminListQueryDto } from './dto/admin-list-query.dto';
+import { AdminExportQueryDto, ExportFormat } from './dto/admin-export-query.dto';
+import { AdminJobQueryDto } from './dto/admin-job-query.dto';
+import { QuizService } from '../quiz/quiz.service';
+import { EncryptionService } from '../common/encryption/encryption.service';
+import { AuthService } from '../auth/auth.service';
+import { JobQueueService } from '../job/job-queue.service';
+import { NurtureService } from '../nurture/nurture.service';
+import { SuppressionService } from '../email/suppression.service';
+import type { AuthUser } from '../common/types/auth';
+import { PILLAR_KEYS } from '../common/config/pillars';
+import { dateRange, exactMatchPattern } from '../common/mongo/query-helpers';
+
+type Timestamped<T> = T & { createdAt: Date; updatedAt: Date };
+
+/** Lead-level filters shared by the listings and the export */
+type LeadFilterQuery = Pick<AdminListQueryDto, 'tier' | 'city' | 'from' | 'to' | 'tag' | 'emailStatus'>;
+
+/** A lead joined with its latest quiz response and that response's report */
+type ExportRow = Timestamped<Lead> & {
+  latestResponse: Timestamped<QuizResponse>[];
+  latestReport: Pick<Report, '_id' | 'emailStatus' | 'downloadCount'>[];
+};
+
+/** Lead fields stored encrypted */
+type PiiField = 'fullName' | 'email' | 'phone' | 'businessName';
+
+/** `iv.tag.data`, each base64: what EncryptionService.encrypt produces */
+const CIPHERTEXT_PATTERN = /^[A-Za-z0-9+/]+=*\.[A-Za-z0-9+/]+=*\.[A-Za-z0-9+/]*=*$/;
+
+const CSV_COLUMNS = [
+  'leadId',
+  'fullName',
+  'email',
+  'phone',
+  'businessName',
+  'piiUndecryptable',
+  'city',
+  'industry',
+  'tags',
+  'consentGiven',
+  'createdAt',
+  'sessionId',
+  'quizVersion',
+  'attempt',
+  'totalScore',
+  'tier',
+  ...PILLAR_KEYS.map((key) => `pillar_${key}`),
+  'completedAt',
+  'reportId',
+  'emailStatus',
+  'downloadCount',
+];
+
+const EXPORT_BATCH_SIZE = 200;
+
+/** Most recent emails shown on a lead */
+const LEAD_EMAIL_LIMIT = 20;
+
+@Injectable()
+export class AdminService {
+  private readonly logger = new Logger(AdminService.name);
+
+  constructor(
+    @InjectModel(Lead.name) private leadModel: Model<LeadDocument>,
+    @InjectModel(QuizResponse.name) private quizResponseModel: Model<QuizResponseDocument>,
+    @InjectModel(Report.name) private reportModel: Model<ReportDocument>,
+    @InjectModel(AdminAccessLog.name) private accessLogModel: Model<AdminAccessLogDocument>,
+    @InjectModel(Job.name) private jobModel: Model<JobDocument>,
+    @InjectModel(EmailDelivery.name) private deliveryModel: Model<EmailDeliveryDocument>,
+    private quizService: QuizService,
+    private encryption: EncryptionService,
+    private authService: AuthService,
+    private jobQueue: JobQueueService,
+    private nurtureService: NurtureService,
+    private suppression: SuppressionService,
+  ) {}
+
+  /** Contact fields are decrypted (and the view logged) only for roles allowed to see PII */
+  async listLeads(query: AdminListQueryDto, user: AuthUser, ip?: string) {
+    const filter = await this.leadFilter(query);
+    const [leads, total] = await Promise.all([
+      this.leadModel
+        .find(filter)
+        .sort({ createdAt: -1 })
+        .skip((query.page - 1) * query.limit)
+        .limit(query.limit)
+        .lean<Timestamped<Lead>[]>(),
+      this.leadModel.countDocuments(filter),
+    ]);
+
+    const showPii = this.authService.canViewPii(user);
+    if (showPii) {
+      await this.logAccess(user, ip, 'list_leads', leads.map((l) => l._id), query);
+    }
+    return {
+      items: leads.map((lead) => this.toLeadView(lead, showPii)),
+      page: query.page,
+      limit: query.limit,
+      total,
+    };
+  }
+
+  /** One lead with its quiz timeline and reports */
+  async getLead(leadId: string, user: AuthUser, ip?: string) {
+    const lead = await this.leadModel.findById(leadId).lean<Timestamped<Lead>>();
+    if (!lead) {
+      throw new NotFoundException('Lead not found');
+    }
+
+    const [history, reports, suppressedEmails, emails] = await Promise.all([
+      this.quizService.getHistory(leadId),
+      this.reportModel
+        .find({ leadId }, { pdfData: 0 })
+        .sort({ generatedAt: -1 })
+        .lean<Timestamped<Report>[]>(),
+      this.suppression.suppressedCategories(lead.emailHash),
+      this.deliveryModel
+        .find({ leadId }, { events: 0 })
+        .sort({ createdAt: -1 })
+        .limit(LEAD_EMAIL_LIMIT)
+        .lean<Timestamped<EmailDelivery>[]>(),
+    ]);
+
+    const showPii = this.authService.canViewPii(user);
+    if (showPii) {
+      await this.logAccess(user, ip, 'view_lead', [leadId], {});
+    }
+    return {
+      ...this.toLeadView(lead, showPii),
+      suppressedEmails,
+      history,
+      reports: reports.map((report) => this.toReportView(report)),
+      emails: emails.map((email) => this.toDeliveryView(email)),
+    };
+  }
+
+  async listResponses(query: AdminListQueryDto) {
+    const filter: FilterQuery<QuizResponseDocument> = {
+      ...dateRange('completedAt', query),
+    };
+    if (query.tier) filter.tier = query.tier;
+
+    const leadIds = await this.leadIdsMatching({ ...query, tier: undefined });
+    if (leadIds) filter.leadId = { $in: leadIds };
+
+    const [responses, total] = await Promise.all([
+      this.quizResponseModel
+        .find(filter)
+        .sort({ completedAt: -1 })
+        .skip((query.page - 1) * query.limit)
+        .limit(query.limit)
+        .lean<Timestamped<QuizResponse>[]>(),
+      this.quizResponseModel.countDocuments(filter),
+    ]);
+
+    return {
+      items: responses.map((response) => ({
+        sessionId: response._id,
+        leadId: response.leadId,
+        attempt: response.attempt,
+        quizVersion: response.quizVersion,
+        industry: response.industry,
+        answers: response.answers,
+        totalScore: response.totalScore,
+        tier: response.tier,
+        pillarScores: response.pillarScores,
+        completedAt: response.completedAt,
+      })),
+      page: query.page,
+      limit: query.limit,
+      total,
+    };
+  }
+
+  async listReports(query: AdminListQueryDto) {
+    const filter: FilterQuery<ReportDocument> = {
+      ...dateRange('generatedAt', query),
+    };
+    if (query.emailStatus) filter.emailStatus = query.emailStatus;
+
+    const leadIds = await this.leadIdsMatching({ ...query, emailStatus: undefined });
+    if (leadIds) filter.leadId = { $in: leadIds };
+
+    const [reports, total] = await Promise.all([
+      this.reportModel
+        .find(filter, { pdfData: 0 })
+        .sort({ generatedAt: -1 })
+        .skip((query.page - 1) * query.limit)
+        .limit(query.limit)
+        .lean<Timestamped<Report>[]>(),
+      this.reportModel.countDocuments(filter),
+    ]);
+
+    return {
+      items: reports.map((report) => this.toReportView(report)),
+      page: query.page,
+      limit: query.limit,
+      total,
+    };
+  }
+
+  /** Background jobs, newest first; `status=dead` lists the dead-letter queue */
+  async listJobs(query: AdminJobQueryDto) {
+    const filter: FilterQuery<JobDocument> = {};
+    if (query.status) filter.status = query.status;
+    if (query.type) filter.type = query.type;
+
+    const [jobs, total] = await Promise.all([
+      this.jobModel
+        .find(filter)
+        .sort({ createdAt: -1 })
+        .skip((query.page - 1) * query.limit)
+        .limit(query.limit)
+        .lean<Timestamped<Job>[]>(),
+      this.jobModel.countDocuments(filter),
+    ]);
+
+    return {
+      items: jobs.map((job) => ({
+        jobId: job._id,
+        type: job.type,
+        status: job.status,
+        payload: job.payload,
+        attempts: job.attempts,
+        maxAttempts: job.maxAttempts,
+        runAt: job.runAt,
+        lastError: job.lastError ?? null,
+        createdAt: job.createdAt,
+        completedAt: job.completedAt ?? null,
+      })),
+      page: query.page,
+      limit: query.limit,
+      total,
+    };
+  }
+
+  /** Put a dead job back on the queue */
+  async retryJob(jobId: string) {
+    const job = await this.jobQueue.retry(jobId);
+    return { jobId: job._id, status: job.status, runAt: job.runAt };
+  }
+
+  /** Record a booked call; the lead gets no more nurture emails */
+  async markLeadBooked(leadId: string) {
+    await this.nurtureService.markBooked(leadId);
+    return { leadId, booked: true };
+  }
+
+  /** Suppress all email to the lead's address, e.g. when they ask by phone */
+  async unsubscribeLead(leadId: string) {
+    await this.nurtureService.markUnsubscribed(leadId);
+    return { leadId, unsubscribed: true };
+  }
+
+  /**
+   * Stream every matching lead with its latest quiz response and report as CSV or NDJSON.
+   * Rows come off a Mongo cursor in batches, so memory use doesn't grow with the export.
+   */
+  async exportLeads(query: AdminExportQueryDto, user: AuthUser, ip?: string): Promise<Readable> {
+    const filter = await this.leadFilter(query);
+    const showPii = this.authService.canViewPii(user);
+    if (showPii) {
+      // Lead ids aren't known up front for a stream; the filter identifies what was exported
+      await this.logAccess(user, ip, 'export_leads', [], query);
+    }
+
+    const cursor = this.leadModel
+      .aggregate<ExportRow>([
+        { $match: filter },
+        { $sort: { createdAt: -1 } },
+        {
+          $lookup: {
+            from: this.quizResponseModel.collection.name,
+            let: { leadId: '$_id' },
+            pipeline: [
+              { $match: { $expr: { $eq: ['$leadId', '$$leadId'] } } },
+              { $sort: { completedAt: -1 } },
+              { $limit: 1 },
+            ],
+            as: 'latestResponse',
+          },
+        },
+        {
+          $lookup: {
+            from: this.reportModel.collection.name,
+            let: { sessionId: { $first: '$latestResponse._id' } },
+            pipeline: [
+              { $match: { $expr: { $eq: ['$sessionId', '$$sessionId'] }, status: 'ready' } },
+              { $project: { emailStatus: 1, downloadCount: 1 } },
+            ],
+            as: 'latestReport',
+          },
+        },
+      ])
+      .cursor({ batchSize: EXPORT_BATCH_SIZE });
+
+    return Readable.from(this.formatExport(cursor, query.format, showPii));
+  }
+
+  private async *formatExport(
+    rows: AsyncIterable<ExportRow>,
+    format: ExportFormat,
+    showPii: boolean,
+  ): AsyncGenerator<string> {
+    if (format === 'csv') {
+      yield CSV_COLUMNS.join(',') + '\r\n';
+    }
+
+    for await (const row of rows) {
+      const lead = this.toLeadView(row, showPii);
+      const response = row.latestResponse[0];
+      const report = row.latestReport[0];
+
+      if (format === 'ndjson') {
+        yield JSON.stringify({
+          ...lead,
+          latestResponse: response
+            ? {
+                sessionId: response._id,
+                quizVersion: response.quizVersion,
+                attempt: response.attempt,
+                totalScore: response.totalScore,
+                tier: response.tier,
+                pillarScores: response.pillarScores ?? null,
+                completedAt: response.completedAt,
+              }
+            : null,
+          report: report
+            ? { reportId: report._id, emailStatus: report.emailStatus, downloadCount: report.downloadCount }
+            : null,
+        }) + '\n';
+        continue;
+      }
+
+      const values: unknown[] = [
+        lead.leadId,
+        lead.fullName,
+        lead.email,
+        lead.phone,
+        lead.businessName,
+        lead.piiUndecryptable.join(';'),
+        lead.city,
+        lead.industry,
+        lead.tags.join(';'),
+        lead.consentGiven,
+        lead.createdAt,
+        response?._id,
+        response?.quizVersion,
+        response?.attempt,
+        response?.totalScore,
+        response?.tier,
+        ...PILLAR_KEYS.map((key) => response?.pillarScores?.[key]),
+        response?.completedAt,
+        report?._id,
+        report?.emailStatus,
+        report?.downloadCount,
+      ];
+      yield values.map((value) => this.csvCell(value)).join(',') + '\r\n';
+    }
+  }
+
+  /** RFC 4180 quoting, plus a leading quote on values a spreadsheet would run as a formula */
+  private csvCell(value: unknown): string {
+    if (value === null || value === undefined) return '';
+    let text = value instanceof Date ? value.toISOString() : String(value);
+    if (/^[=+\-@\t\r]/.test(text)) text = `'${text}`;
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+  }
+
+  /** Lead filter from the query's lead-level fields (tier, city, tag, dates, email status) */
+  private async leadFilter(query: LeadFilterQuery): Promise<FilterQuery<LeadDocument>> {
+    const filter: FilterQuery<LeadDocument> = { ...dateRange('createdAt', query) };
+    if (query.tier) filter.scoreTier = query.tier;
+    if (query.city) filter.city = exactMatchPattern(query.city);
+    if (query.tag) filter.tags = query.tag;
+    if (query.emailStatus) {
+      filter._id = { $in: await this.reportModel.distinct('leadId', { emailStatus: query.emailStatus }) };
+    }
+    return filter;
+  }
+
+  /**
+   * Ids of leads matching the lead-level filters used by the response and report listings
+   * (city, tier, tag, email status), or null when none are set.
+   */
+  private async leadIdsMatching(query: LeadFilterQuery): Promise<string[] | null> {
+    if (!query.city && !query.tier && !query.tag && !query.emailStatus) return null;
+    const filter = await this.leadFilter({ ...query, from: undefined, to: undefined });
+    return this.leadModel.distinct('_id', filter);
+  }
+
+  private toLeadView(lead: Timestamped<Lead>, showPii: boolean) {
+    const undecryptable: PiiField[] = [];
+    const reveal = (field: PiiField) => (showPii ? this.reveal(lead, field, undecryptable) : null);
+    return {
+      leadId: lead._id,
+      fullName: reveal('fullName'),
+      email: reveal('email'),
+      phone: reveal('phone'),
+      businessName: reveal('businessName'),
+      piiRedacted: !showPii,
+      piiUndecryptable: undecryptable,
+      city: lead.city,
+      industry: lead.industry,
+      scoreTier: lead.scoreTier,
+      overallScore: lead.overallScore,
+      tags: lead.tags,
+      consentGiven: lead.consentGiven,
+      nurtureStatus: lead.nurture?.status ?? null,
+      bookedAt: lead.bookedAt ?? null,
+      createdAt: lead.createdAt,
+    };
+  }
+
+  private toReportView(report: Timestamped<Report>) {
+    return {
+      reportId: report._id,
+      sessionId: report.sessionId,
+      leadId: report.leadId,
+      status: report.status,
+      fileSizeBytes: report.fileSizeBytes ?? null,
+      generatedAt: report.generatedAt ?? null,
+      emailStatus: report.emailStatus,
+      emailOpenedAt: report.emailOpenedAt ?? null,
+      emailClickedAt: report.emailClickedAt ?? null,
+      downloadCount: report.downloadCount,
+    };
+  }
+
+  private toDeliveryView(delivery: Timestamped<EmailDelivery>) {
+    return {
+      messageId: delivery._id,
+      category: delivery.category,
+      reportId: delivery.reportId ?? null,
+      status: delivery.status,
+      bounceType: delivery.bounceType ?? null,
+      sentAt: delivery.createdAt,
+      openedAt: delivery.openedAt ?? null,
+      clickedAt: delivery.clickedAt ?? null,
+    };
+  }
+
+  /**
+   * Decrypt a PII field, passing through legacy plaintext values. Ciphertext that fails to decrypt
+   * (corrupt, or under another key) is logged and comes back null, with the field listed in `undecryptable`.
+   */
+  private reveal(lead: Timestamped<Lead>, field: PiiField, undecryptable: PiiField[]): string | null {
+    const value = lead[field];
+    if (!value || !CIPHERTEXT_PATTERN.test(value)) return value ?? null;
+    try {
+      return this.encryption.decrypt(value);
+    } catch (err) {
+      this.logger.error(`Could not decrypt ${field} of lead ${lead._id}: ${(err as Error).message}`);
+      undecryptable.push(field);
+      return null;
+    }
+  }
+
+  private async logAccess(
+    user: AuthUser,
+    ip: string | undefined,
+    action: string,
+    leadIds: string[],
+    query: object,
+  ): Promise<void> {
+    try {
+      await this.accessLogModel.create({ actor: user.id, role: user.role, action, leadIds, query, ip });
+    } catch (err) {
+      // Never hand out PII we could not record
+      this.logger.error(`Failed to write access log for ${action}`, err);
+      throw err;
+    }
+  }
+}
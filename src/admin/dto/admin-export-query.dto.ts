@@ -0,0 +1,34 @@
+import { IsDateString, IsIn, IsOptional, IsString, MaxLength } from 'class-validator';
+import { allTierKeys } from '../../common/config/quiz-registry';
+
+export const EXPORT_FORMATS = ['csv', 'ndjson'] as const;
+export type ExportFormat = (typeof EXPORT_FORMATS)[number];
+
+/** Filters for the lead export (same semantics as the admin listings, without pagination) */
+export class AdminExportQueryDto {
+  @IsOptional()
+  @IsIn(EXPORT_FORMATS)
+  format: ExportFormat = 'csv';
+
+  @IsOptional()
+  @IsIn(allTierKeys)
+  tier?: string;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(100)
+  city?: string;
+
+  @IsOptional()
+  @IsDateString()
+  from?: string;
+
+  @IsOptional()
+  @IsDateString()
+  to?: string;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(100)
+  tag?: string;
+}
@@ -0,0 +1,27 @@
+import { Type } from 'class-transformer';
+import { IsIn, IsInt, IsOptional, Max, Min } from 'class-validator';
+import { JOB_STATUSES, JOB_TYPES } from '../../job/job.schema';
+
+/** Pagination and filters for the job queue listing */
+export class AdminJobQueryDto {
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  page: number = 1;
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(100)
+  limit: number = 25;
+
+  @IsOptional()
+  @IsIn(JOB_STATUSES)
+  status?: string;
+
+  @IsOptional()
+  @IsIn(JOB_TYPES)
+  type?: string;
+}
@@ -0,0 +1,42 @@
+import { Controller, Get, Query, UseGuards } from '@nestjs/common';
+import { AnalyticsService } from './analytics.service';
+import { AuthGuard } from '../auth/auth.guard';
+import { Roles } from '../auth/roles.decorator';
+import { AnalyticsQueryDto } from './dto/analytics-query.dto';
+
+@Controller('analytics')
+@UseGuards(AuthGuard)
+@Roles('admin', 'sales', 'analyst')
+export class AnalyticsController {
+  constructor(private analyticsService: AnalyticsService) {}
+
+  @Get('funnel')
+  async funnel(@Query() query: AnalyticsQueryDto) {
+    return this.analyticsService.funnel(query);
+  }
+
+  @Get('tiers')
+  async tiers(@Query() query: AnalyticsQueryDto) {
+    return this.analyticsService.tierDistribution(query);
+  }
+
+  @Get('pillars')
+  async pillars(@Query() query: AnalyticsQueryDto) {
+    return this.analyticsService.pillarAverages(query);
+  }
+
+  @Get('answers')
+  async answers(@Query() query: AnalyticsQueryDto) {
+    return this.analyticsService.answerDistribution(query);
+  }
+
+  @Get('downloads')
+  async downloads(@Query() query: AnalyticsQueryDto) {
+    return this.analyticsService.downloads(query);
+  }
+
+  @Get('cohorts')
+  async cohorts(@Query() query: AnalyticsQueryDto) {
+    return this.analyticsService.weeklyCohorts(query);
+  }
+}
@@ -0,0 +1,14 @@
+import { Module } from '@nestjs/common';
+import { AnalyticsController } from './analytics.controller';
+import { AnalyticsService } from './analytics.service';
+import { LeadModule } from '../lead/lead.module';
+import { QuizModule } from '../quiz/quiz.module';
+import { ReportModule } from '../report/report.module';
+import { AuthModule } from '../auth/auth.module';
+
+@Module({
+  imports: [LeadModule, QuizModule, ReportModule, AuthModule],
+  controllers: [AnalyticsController],
+  providers: [AnalyticsService],
+})
+export class AnalyticsModule {}
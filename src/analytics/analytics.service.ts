@@ -0,0 +1,373 @@
+import { Injectable } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { FilterQuery, Model, PipelineStage } from 'mongoose';
+import { Lead, LeadDocument } from '../lead/lead.schema';
+import { QuizResponse, QuizResponseDocument } from '../quiz/quiz-response.schema';
+import { QuizDraft, QuizDraftDocument } from '../quiz/quiz-draft.schema';
+import { DELIVERED_EMAIL_STATUSES, Report, ReportDocument } from '../report/report.schema';
+import { AnalyticsQueryDto } from './dto/analytics-query.dto';
+import { ScoringService } from '../common/scoring/scoring.service';
+import { QuizRegistryService } from '../common/quiz-registry/quiz-registry.service';
+import { findQuizDefinition } from '../common/config/quiz-registry';
+import { PILLAR_KEYS, pillars } from '../common/config/pillars';
+import { dateRange, exactMatchPattern } from '../common/mongo/query-helpers';
+
+/** Report email statuses that mean the email went out */
+const SENT_EMAIL_STATUSES = ['sent', ...DELIVERED_EMAIL_STATUSES];
+
+interface FunnelCounts {
+  leads: number;
+  quizCompleted: number;
+  reportGenerated: number;
+  emailSent: number;
+}
+
+/**
+ * Read-only aggregations over leads, responses, drafts and reports.
+ * City filters by the lead's city; quiz version filters responses (and what hangs off them).
+ */
+@Injectable()
+export class AnalyticsService {
+  constructor(
+    @InjectModel(Lead.name) private leadModel: Model<LeadDocument>,
+    @InjectModel(QuizResponse.name) private quizResponseModel: Model<QuizResponseDocument>,
+    @InjectModel(QuizDraft.name) private quizDraftModel: Model<QuizDraftDocument>,
+    @InjectModel(Report.name) private reportModel: Model<ReportDocument>,
+    private scoringService: ScoringService,
+    private registry: QuizRegistryService,
+  ) {}
+
+  /** Lead capture → quiz → report → email, counted per lead, plus quiz draft abandonment */
+  async funnel(query: AnalyticsQueryDto) {
+    const [totals] = await this.leadModel.aggregate<FunnelCounts>([
+      ...this.leadFunnelStages(query),
+      { $group: { _id: null, ...this.funnelAccumulators() } },
+    ]);
+    const counts = totals ?? { leads: 0, quizCompleted: 0, reportGenerated: 0, emailSent: 0 };
+
+    return {
+      steps: [
+        { step: 'lead_captured', count: counts.leads },
+        { step: 'quiz_completed', count: counts.quizCompleted },
+        { step: 'report_generated', count: counts.reportGenerated },
+        { step: 'email_sent', count: counts.emailSent },
+      ].map((step) => ({ ...step, rate: this.rate(step.count, counts.leads) })),
+      drafts: await this.draftAbandonment(query),
+    };
+  }
+
+  async tierDistribution(query: AnalyticsQueryDto) {
+    const rows = await this.quizResponseModel.aggregate<{ _id: string; count: number; averageScore: number }>([
+      { $match: await this.responseMatch(query) },
+      { $group: { _id: '$tier', count: { $sum: 1 }, averageScore: { $avg: '$totalScore' } } },
+    ]);
+    const total = rows.reduce((sum, row) => sum + row.count, 0);
+
+    // Report tiers in score order using the current definition's table
+    return {
+      total,
+      tiers: this.registry.orderedTiers(this.registry.current()).map((tier) => {
+        const row = rows.find((r) => r._id === tier.key);
+        return {
+          tier: tier.key,
+          name: tier.name,
+          count: row?.count ?? 0,
+          share: this.rate(row?.count ?? 0, total),
+          averageScore: row ? Math.round(row.averageScore * 10) / 10 : null,
+        };
+      }),
+    };
+  }
+
+  /** Average pillar score per quiz version, as points and as a percentage of the pillar maximum */
+  async pillarAverages(query: AnalyticsQueryDto) {
+    const rows = await this.quizResponseModel.aggregate<Record<string, number | string | null>>([
+      { $match: { ...(await this.responseMatch(query)), pillarScores: { $exists: true } } },
+      {
+        $group: {
+          _id: '$quizVersion',
+          responses: { $sum: 1 },
+          // Unscored pillars (every question skipped) average as null, which $avg ignores, as in benchmarks
+          ...Object.fromEntries(
+            PILLAR_KEYS.map((key) => [
+              key,
+              {
+                $avg: {
+                  $cond: [
+                    { $in: [key, { $ifNull: ['$unscoredPillars', []] }] },
+                    null,
+                    `$pillarScores.${key}`,
+                  ],
+                },
+              },
+            ]),
+          ),
+        },
+      },
+      { $sort: { _id: 1 } },
+    ]);
+
+    return rows.map((row) => {
+      const definition = findQuizDefinition(String(row._id));
+      const maxima = definition ? this.scoringService.getPillarMaxima(definition) : null;
+      return {
+        quizVersion: row._id,
+        responses: row.responses,
+        pillars: PILLAR_KEYS.map((key) => {
+          // null when no response in the group scored the pillar
+          const average = row[key] === null || row[key] === undefined ? null : Number(row[key]);
+          return {
+            pillar: key,
+            name: pillars[key].name,
+            average: average === null ? null : Math.round(average * 10) / 10,
+            max: maxima?.[key] ?? null,
+            percent: average !== null && maxima?.[key] ? Math.round((average / maxima[key]) * 100) : null,
+          };
+        }),
+      };
+    });
+  }
+
+  /** How often each option was picked, per question, per quiz version */
+  async answerDistribution(query: AnalyticsQueryDto) {
+    const rows = await this.quizResponseModel.aggregate<{
+      _id: { quizVersion: string; index: number };
+      counts: { answer: string; count: number }[];
+    }>([
+      { $match: await this.responseMatch(query) },
+      { $unwind: { path: '$answers', includeArrayIndex: 'index' } },
+      {
+        $group: {
+          _id: { quizVersion: '$quizVersion', index: '$index', answer: '$answers' },
+          count: { $sum: 1 },
+        },
+      },
+      {
+        $group: {
+          _id: { quizVersion: '$_id.quizVersion', index: '$_id.index' },
+          counts: { $push: { answer: '$_id.answer', count: '$count' } },
+        },
+      },
+      { $sort: { '_id.quizVersion': 1, '_id.index': 1 } },
+    ]);
+
+    const versions = new Map<string, { questionId: number | null; text: string | null; answers: Record<string, number>; total: number }[]>();
+    for (const row of rows) {
+      const { quizVersion, index } = row._id;
+      const question = findQuizDefinition(quizVersion)?.questions[index];
+      const answers = Object.fromEntries(row.counts.map((c) => [c.answer, c.count]));
+      const total = row.counts.reduce((sum, c) => sum + c.count, 0);
+
+      const questions = versions.get(quizVersion) ?? [];
+      questions.push({ questionId: question?.id ?? null, text: question?.text ?? null, answers, total });
+      versions.set(quizVersion, questions);
+    }
+
+    return [...versions].map(([quizVersion, questions]) => ({ quizVersion, questions }));
+  }
+
+  async downloads(query: AnalyticsQueryDto) {
+    const rows = await this.reportModel.aggregate<{
+      _id: string;
+      reports: number;
+      downloads: number;
+      downloadedReports: number;
+    }>([
+      ...(await this.reportStages(query)),
+      {
+        $group: {
+          _id: '$emailStatus',
+          reports: { $sum: 1 },
+          downloads: { $sum: '$downloadCount' },
+          downloadedReports: { $sum: { $cond: [{ $gt: ['$downloadCount', 0] }, 1, 0] } },
+        },
+      },
+    ]);
+
+    const sum = (field: 'reports' | 'downloads' | 'downloadedReports') =>
+      rows.reduce((total, row) => total + row[field], 0);
+    const reports = sum('reports');
+    const downloads = sum('downloads');
+
+    return {
+      reports,
+      downloads,
+      downloadedReports: sum('downloadedReports'),
+      downloadRate: this.rate(sum('downloadedReports'), reports),
+      averageDownloadsPerReport: reports ? Math.round((downloads / reports) * 100) / 100 : 0,
+      emailStatus: Object.fromEntries(rows.map((row) => [row._id, row.reports])),
+    };
+  }
+
+  /** Funnel counts and average score for leads grouped by the ISO week they were captured */
+  async weeklyCohorts(query: AnalyticsQueryDto) {
+    const rows = await this.leadModel.aggregate<FunnelCounts & { _id: Date; averageScore: number | null }>([
+      ...this.leadFunnelStages(query),
+      {
+        $group: {
+          _id: { $dateTrunc: { date: '$createdAt', unit: 'week', startOfWeek: 'monday' } },
+          ...this.funnelAccumulators(),
+          averageScore: { $avg: { $first: '$responses.totalScore' } },
+        },
+      },
+      { $sort: { _id: 1 } },
+    ]);
+
+    return rows.map((row) => ({
+      weekStart: row._id,
+      leads: row.leads,
+      quizCompleted: row.quizCompleted,
+      reportGenerated: row.reportGenerated,
+      emailSent: row.emailSent,
+      completionRate: this.rate(row.quizCompleted, row.leads),
+      averageScore: row.averageScore === null ? null : Math.round(row.averageScore * 10) / 10,
+    }));
+  }
+
+  /** Leads joined with their (version-filtered) responses, newest first, and those responses' reports */
+  private leadFunnelStages(query: AnalyticsQueryDto): PipelineStage[] {
+    const leadMatch: FilterQuery<LeadDocument> = { ...dateRange('createdAt', query) };
+    if (query.city) leadMatch.city = exactMatchPattern(query.city);
+
+    return [
+      { $match: leadMatch },
+      {
+        $lookup: {
+          from: this.quizResponseModel.collection.name,
+          let: { leadId: '$_id' },
+          pipeline: [
+            {
+              $match: {
+                $expr: { $eq: ['$leadId', '$$leadId'] },
+                ...(query.quizVersion ? { quizVersion: query.quizVersion } : {}),
+              },
+            },
+            { $sort: { completedAt: -1 } },
+            { $project: { totalScore: 1 } },
+          ],
+          as: 'responses',
+        },
+      },
+      {
+        $lookup: {
+          from: this.reportModel.collection.name,
+          let: { sessionIds: '$responses._id' },
+          pipeline: [
+            { $match: { $expr: { $in: ['$sessionId', '$$sessionIds'] }, status: 'ready' } },
+            { $project: { emailStatus: 1 } },
+          ],
+          as: 'reports',
+        },
+      },
+    ];
+  }
+
+  private funnelAccumulators() {
+    const hasAny = (field: string) => ({ $cond: [{ $gt: [{ $size: field }, 0] }, 1, 0] });
+    return {
+      leads: { $sum: 1 },
+      quizCompleted: { $sum: hasAny('$responses') },
+      reportGenerated: { $sum: hasAny('$reports') },
+      emailSent: {
+        $sum: {
+          $cond: [
+            { $gt: [{ $size: { $setIntersection: ['$reports.emailStatus', SENT_EMAIL_STATUSES] } }, 0] },
+            1,
+            0,
+          ],
+        },
+      },
+    };
+  }
+
+  /** Started vs completed drafts, and where abandoned drafts stopped. Drafts have no city. */
+  private async draftAbandonment(query: AnalyticsQueryDto) {
+    const match: FilterQuery<QuizDraftDocument> = { ...dateRange('createdAt', query) };
+    if (query.quizVersion) match.quizVersion = query.quizVersion;
+
+    const now = new Date();
+    const [result] = await this.quizDraftModel.aggregate<{
+      counts: { started: number; completed: number; abandoned: number }[];
+      stoppedAt: { _id: number | null; count: number }[];
+    }>([
+      { $match: match },
+      {
+        $addFields: {
+          abandoned: { $and: [{ $eq: ['$status', 'in_progress'] }, { $lt: ['$expiresAt', now] }] },
+        },
+      },
+      {
+        $facet: {
+          counts: [
+            {
+              $group: {
+                _id: null,
+                started: { $sum: 1 },
+                completed: { $sum: { $cond: [{ $eq: ['$status', 'completed'] }, 1, 0] } },
+                abandoned: { $sum: { $cond: ['$abandoned', 1, 0] } },
+              },
+            },
+          ],
+          stoppedAt: [
+            { $match: { abandoned: true } },
+            { $group: { _id: { $ifNull: ['$lastQuestionId', null] }, count: { $sum: 1 } } },
+            { $sort: { _id: 1 } },
+          ],
+        },
+      },
+    ]);
+
+    const counts = result?.counts[0];
+    const stoppedAt = Object.fromEntries(
+      (result?.stoppedAt ?? []).map((row) => [row._id === null ? 'none' : String(row._id), row.count]),
+    );
+
+    const started = counts?.started ?? 0;
+    const abandoned = counts?.abandoned ?? 0;
+    return {
+      started,
+      completed: counts?.completed ?? 0,
+      inProgress: started - (counts?.completed ?? 0) - abandoned,
+      abandoned,
+      abandonmentRate: this.rate(abandoned, started),
+      abandonedAfterQuestion: stoppedAt,
+    };
+  }
+
+  private async responseMatch(query: AnalyticsQueryDto): Promise<FilterQuery<QuizResponseDocument>> {
+    const match: FilterQuery<QuizResponseDocument> = { ...dateRange('completedAt', query) };
+    if (query.quizVersion) match.quizVersion = query.quizVersion;
+    if (query.city) {
+      match.leadId = { $in: await this.leadModel.distinct('_id', { city: exactMatchPattern(query.city) }) };
+    }
+    return match;
+  }
+
+  /** Reports, filtered by city through the lead and by quiz version through the response */
+  private async reportStages(query: AnalyticsQueryDto): Promise<PipelineStage[]> {
+    const match: FilterQuery<ReportDocument> = { status: 'ready', ...dateRange('generatedAt', query) };
+    if (query.city) {
+      match.leadId = { $in: await this.leadModel.distinct('_id', { city: exactMatchPattern(query.city) }) };
+    }
+    if (!query.quizVersion) return [{ $match: match }];
+
+    return [
+      { $match: match },
+      {
+        $lookup: {
+          from: this.quizResponseModel.collection.name,
+          localField: 'sessionId',
+          foreignField: '_id',
+          as: 'response',
+          pipeline: [{ $project: { quizVersion: 1 } }],
+        },
+      },
+      { $match: { 'response.quizVersion': query.quizVersion } },
+    ];
+  }
+
+  /** Share as a 0–1 fraction rounded to 3 places (0 when the base is empty) */
+  private rate(count: number, base: number): number {
+    return base > 0 ? Math.round((count / base) * 1000) / 1000 : 0;
+  }
+}
@@ -0,0 +1,22 @@
+import { IsDateString, IsIn, IsOptional, IsString, MaxLength } from 'class-validator';
+import { quizRegistry } from '../../common/config/quiz-registry';
+
+/** Filters shared by every analytics endpoint */
+export class AnalyticsQueryDto {
+  @IsOptional()
+  @IsString()
+  @MaxLength(100)
+  city?: string;
+
+  @IsOptional()
+  @IsIn(Object.keys(quizRegistry))
+  quizVersion?: string;
+
+  @IsOptional()
+  @IsDateString()
+  from?: string;
+
+  @IsOptional()
+  @IsDateString()
+  to?: string;
+}
@@ -9,6 +9,11 @@ import { LeadModule } from './lead/lead.module';
 import { QuizModule } from './quiz/quiz.module';
 import { ReportModule } from './report/report.module';
 import { HealthModule } from './health/health.module';
+import { AuthModule } from './auth/auth.module';
+import { AdminModule } from './admin/admin.module';
+import { AnalyticsModule } from './analytics/analytics.module';
+import { JobModule } from './job/job.module';
+import { DeliveryModule } from './delivery/delivery.module';
 
 @Module({
   imports: [
@@ -33,6 +38,11 @@ import { HealthModule } from './health/health.module';
     QuizModule,
     ReportModule,
     HealthModule,
+    AuthModule,
+    AdminModule,
+    AnalyticsModule,
+    JobModule,
+    DeliveryModule,
   ],
   providers: [
     {
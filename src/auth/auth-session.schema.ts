@@ -0,0 +1,18 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { HydratedDocument } from 'mongoose';
+
+export type AuthSessionDocument = HydratedDocument<AuthSession>;
+
+@Schema({ timestamps: { createdAt: true, updatedAt: false } })
+export class AuthSession {
+  @Prop({ type: String, required: true })
+  _id: string; // SHA-256 of the bearer token; the token itself is never stored
+
+  @Prop({ required: true, index: true })
+  userId: string;
+
+  @Prop({ required: true, index: { expireAfterSeconds: 0 } })
+  expiresAt: Date;
+}
+
+export const AuthSessionSchema = SchemaFactory.createForClass(AuthSession);
@@ -0,0 +1,64 @@
+import { Controller, Post, Get, Body, Param, Req, UseGuards, HttpCode } from '@nestjs/common';
+import { Throttle } from '@nestjs/throttler';
+import { AuthService } from './auth.service';
+import { AuthGuard } from './auth.guard';
+import { Roles } from './roles.decorator';
+import { CurrentUser } from './current-user.decorator';
+import { LoginDto } from './dto/login.dto';
+import { CreateUserDto } from './dto/create-user.dto';
+import type { AuthenticatedRequest, AuthUser } from '../common/types/auth';
+
+@Controller('auth')
+export class AuthController {
+  constructor(private authService: AuthService) {}
+
+  @Post('login')
+  @HttpCode(200)
+  @Throttle({ default: { ttl: 60_000, limit: 5 } })
+  async login(@Body() dto: LoginDto) {
+    return this.authService.login(dto.email, dto.password);
+  }
+
+  @Post('logout')
+  @HttpCode(204)
+  @UseGuards(AuthGuard)
+  async logout(@Req() req: AuthenticatedRequest) {
+    const token = req.header('authorization')?.match(/^Bearer\s+(\S+)$/i)?.[1];
+    if (token) await this.authService.logout(token);
+  }
+
+  @Get('me')
+  @UseGuards(AuthGuard)
+  me(@CurrentUser() user: AuthUser) {
+    return { ...user, canViewPii: this.authService.canViewPii(user) };
+  }
+
+  @Get('users')
+  @UseGuards(AuthGuard)
+  @Roles('admin')
+  async users() {
+    return this.authService.listUsers();
+  }
+
+  @Post('users')
+  @UseGuards(AuthGuard)
+  @Roles('admin')
+  async createUser(@Body() dto: CreateUserDto) {
+    return this.authService.createUser(dto);
+  }
+
+  @Post('users/:userId/api-key')
+  @UseGuards(AuthGuard)
+  @Roles('admin')
+  async issueApiKey(@Param('userId') userId: string) {
+    return this.authService.issueApiKey(userId);
+  }
+
+  @Post('users/:userId/deactivate')
+  @HttpCode(200)
+  @UseGuards(AuthGuard)
+  @Roles('admin')
+  async deactivate(@Param('userId') userId: string) {
+    return this.authService.deactivateUser(userId);
+  }
+}
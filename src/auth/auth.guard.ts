@@ -0,0 +1,50 @@
+import {
+  CanActivate,
+  ExecutionContext,
+  ForbiddenException,
+  Injectable,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { AuthService } from './auth.service';
+import { ROLES_KEY } from './roles.decorator';
+import type { AuthenticatedRequest, Role } from '../common/types/auth';
+
+/**
+ * Authenticate with `Authorization: Bearer <session token>` or `x-api-key`,
+ * then enforce any @Roles() on the handler or controller.
+ */
+@Injectable()
+export class AuthGuard implements CanActivate {
+  constructor(
+    private reflector: Reflector,
+    private authService: AuthService,
+  ) {}
+
+  async canActivate(context: ExecutionContext): Promise<boolean> {
+    const request = context.switchToHttp().getRequest<AuthenticatedRequest>();
+
+    const bearer = request.header('authorization')?.match(/^Bearer\s+(\S+)$/i)?.[1];
+    const apiKey = request.header('x-api-key');
+
+    const user = bearer
+      ? await this.authService.authenticateSession(bearer)
+      : apiKey
+        ? await this.authService.authenticateApiKey(apiKey)
+        : null;
+
+    if (!user) {
+      throw new UnauthorizedException('Authentication required');
+    }
+    request.user = user;
+
+    const roles = this.reflector.getAllAndOverride<Role[] | undefined>(ROLES_KEY, [
+      context.getHandler(),
+      context.getClass(),
+    ]);
+    if (roles?.length && !roles.includes(user.role)) {
+      throw new ForbiddenException('Insufficient role');
+    }
+    return true;
+  }
+}
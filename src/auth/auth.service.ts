@@ -0,0 +1,178 @@
+import {
+  ConflictException,
+  Injectable,
+  Logger,
+  NotFoundException,
+  OnApplicationBootstrap,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { ConfigService } from '@nestjs/config';
+import { Model } from 'mongoose';
+import { createHash, randomBytes, scrypt, timingSafeEqual } from 'crypto';
+import { promisify } from 'util';
+import { User, UserDocument } from './user.schema';
+import { AuthSession, AuthSessionDocument } from './auth-session.schema';
+import { CreateUserDto } from './dto/create-user.dto';
+import { IdService } from '../common/id/id.service';
+import { rolePermissions } from '../common/config/roles';
+import type { AuthUser } from '../common/types/auth';
+
+const scryptAsync = promisify(scrypt) as (password: string, salt: Buffer, keylen: number) => Promise<Buffer>;
+
+const SCRYPT_KEYLEN = 64;
+const API_KEY_PREFIX = 'lma_';
+
+@Injectable()
+export class AuthService implements OnApplicationBootstrap {
+  private readonly logger = new Logger(AuthService.name);
+  private readonly sessionTtlMs: number;
+
+  /** Compared against when the email is unknown, so response time doesn't reveal which accounts exist */
+  private readonly dummyHash = `scrypt:${randomBytes(16).toString('base64')}:${randomBytes(SCRYPT_KEYLEN).toString('base64')}`;
+
+  constructor(
+    @InjectModel(User.name) private userModel: Model<UserDocument>,
+    @InjectModel(AuthSession.name) private sessionModel: Model<AuthSessionDocument>,
+    private idService: IdService,
+    private config: ConfigService,
+  ) {
+    this.sessionTtlMs = Number(this.config.get('AUTH_SESSION_TTL_HOURS', 12)) * 60 * 60 * 1000;
+  }
+
+  /** Create the first admin from AUTH_BOOTSTRAP_EMAIL / AUTH_BOOTSTRAP_PASSWORD when no users exist */
+  async onApplicationBootstrap(): Promise<void> {
+    const email = this.config.get<string>('AUTH_BOOTSTRAP_EMAIL');
+    const password = this.config.get<string>('AUTH_BOOTSTRAP_PASSWORD');
+    if (!email || !password) return;
+
+    if ((await this.userModel.estimatedDocumentCount()) > 0) return;
+
+    await this.createUser({ email, password, name: 'Administrator', role: 'admin' });
+    this.logger.log(`Created bootstrap admin ${email}`);
+  }
+
+  async login(email: string, password: string) {
+    const user = await this.userModel.findOne({ email: email.toLowerCase().trim(), active: true });
+
+    const valid = await this.verifyPassword(password, user?.passwordHash ?? this.dummyHash);
+    if (!user || !user.passwordHash || !valid) {
+      throw new UnauthorizedException('Invalid email or password');
+    }
+
+    const token = randomBytes(32).toString('base64url');
+    const expiresAt = new Date(Date.now() + this.sessionTtlMs);
+    await this.sessionModel.create({ _id: this.hashToken(token), userId: user._id, expiresAt });
+
+    user.lastLoginAt = new Date();
+    await user.save();
+
+    return { token, expiresAt, user: this.toAuthUser(user, 'session') };
+  }
+
+  async logout(token: string): Promise<void> {
+    await this.sessionModel.deleteOne({ _id: this.hashToken(token) });
+  }
+
+  /** Resolve a bearer token to its user, or null when unknown, expired or deactivated */
+  async authenticateSession(token: string): Promise<AuthUser | null> {
+    const session = await this.sessionModel.findById(this.hashToken(token));
+    // The TTL monitor only runs every minute, so check expiry explicitly
+    if (!session || session.expiresAt.getTime() <= Date.now()) return null;
+
+    const user = await this.userModel.findOne({ _id: session.userId, active: true });
+    return user ? this.toAuthUser(user, 'session') : null;
+  }
+
+  async authenticateApiKey(key: string): Promise<AuthUser | null> {
+    if (!key.startsWith(API_KEY_PREFIX)) return null;
+    const user = await this.userModel.findOne({ apiKeyHash: this.hashToken(key), active: true });
+    return user ? this.toAuthUser(user, 'api_key') : null;
+  }
+
+  async createUser(dto: CreateUserDto) {
+    const email = dto.email.toLowerCase().trim();
+    if (await this.userModel.exists({ email })) {
+      throw new ConflictException('A user with this email already exists');
+    }
+
+    const user = await this.userModel.create({
+      _id: this.idService.generateId(),
+      email,
+      name: dto.name,
+      role: dto.role,
+      passwordHash: dto.password ? await this.hashPassword(dto.password) : undefined,
+    });
+
+    return this.toUserView(user);
+  }
+
+  async listUsers() {
+    const users = await this.userModel.find().sort({ email: 1 });
+    return users.map((user) => this.toUserView(user));
+  }
+
+  /** Issue (or rotate) a user's API key. The plaintext key is only ever returned here. */
+  async issueApiKey(userId: string) {
+    const user = await this.userModel.findById(userId);
+    if (!user) {
+      throw new NotFoundException('User not found');
+    }
+
+    const apiKey = API_KEY_PREFIX + randomBytes(32).toString('base64url');
+    user.apiKeyHash = this.hashToken(apiKey);
+    user.apiKeyPrefix = apiKey.slice(0, API_KEY_PREFIX.length + 6);
+    await user.save();
+
+    return { userId: user._id, apiKey, apiKeyPrefix: user.apiKeyPrefix };
+  }
+
+  /** Deactivate a user and end their sessions */
+  async deactivateUser(userId: string) {
+    const user = await this.userModel.findByIdAndUpdate(userId, { active: false }, { new: true });
+    if (!user) {
+      throw new NotFoundException('User not found');
+    }
+    await this.sessionModel.deleteMany({ userId });
+    return this.toUserView(user);
+  }
+
+  /** Whether this user may see decrypted lead contact details */
+  canViewPii(user: AuthUser): boolean {
+    return rolePermissions[user.role].viewPii;
+  }
+
+  private async hashPassword(password: string): Promise<string> {
+    const salt = randomBytes(16);
+    const hash = await scryptAsync(password, salt, SCRYPT_KEYLEN);
+    return ['scrypt', salt.toString('base64'), hash.toString('base64')].join(':');
+  }
+
+  private async verifyPassword(password: string, stored: string): Promise<boolean> {
+    const [, saltB64, hashB64] = stored.split(':');
+    const expected = Buffer.from(hashB64, 'base64');
+    const actual = await scryptAsync(password, Buffer.from(saltB64, 'base64'), expected.length);
+    return timingSafeEqual(actual, expected);
+  }
+
+  private hashToken(token: string): string {
+    return createHash('sha256').update(token).digest('hex');
+  }
+
+  private toAuthUser(user: UserDocument, via: AuthUser['via']): AuthUser {
+    return { id: user._id, email: user.email, name: user.name, role: user.role, via };
+  }
+
+  private toUserView(user: UserDocument) {
+    return {
+      userId: user._id,
+      email: user.email,
+      name: user.name,
+      role: user.role,
+      active: user.active,
+      hasPassword: !!user.passwordHash,
+      apiKeyPrefix: user.apiKeyPrefix ?? null,
+      lastLoginAt: user.lastLoginAt ?? null,
+    };
+  }
+}
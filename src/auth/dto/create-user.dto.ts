@@ -0,0 +1,23 @@
+import { IsEmail, IsIn, IsOptional, IsString, MaxLength, MinLength } from 'class-validator';
+import { ROLES } from '../../common/config/roles';
+import type { Role } from '../../common/types/auth';
+
+export class CreateUserDto {
+  @IsEmail()
+  email: string;
+
+  @IsString()
+  @MinLength(1)
+  @MaxLength(150)
+  name: string;
+
+  @IsIn(ROLES)
+  role: Role;
+
+  /** Omit for API-key-only accounts */
+  @IsOptional()
+  @IsString()
+  @MinLength(12)
+  @MaxLength(200)
+  password?: string;
+}
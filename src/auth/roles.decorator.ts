@@ -0,0 +1,7 @@
+import { SetMetadata } from '@nestjs/common';
+import type { Role } from '../common/types/auth';
+
+export const ROLES_KEY = 'roles';
+
+/** Restrict a route or controller to the given roles (any authenticated user when omitted) */
+export const Roles = (...roles: Role[]) => SetMetadata(ROLES_KEY, roles);
@@ -0,0 +1,39 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { HydratedDocument } from 'mongoose';
+import type { Role } from '../common/types/auth';
+import { ROLES } from '../common/config/roles';
+
+export type UserDocument = HydratedDocument<User>;
+
+/** Internal staff account (not a lead) */
+@Schema({ timestamps: true })
+export class User {
+  @Prop({ type: String, required: true })
+  _id: string; // nanoid(21)
+
+  @Prop({ required: true, unique: true, lowercase: true, trim: true })
+  email: string;
+
+  @Prop({ required: true })
+  name: string;
+
+  @Prop({ type: String, enum: ROLES, required: true })
+  role: Role;
+
+  @Prop()
+  passwordHash?: string; // scrypt:salt:hash
+
+  @Prop({ index: { unique: true, sparse: true } })
+  apiKeyHash?: string; // SHA-256 of the issued key
+
+  @Prop()
+  apiKeyPrefix?: string; // first characters, to tell keys apart
+
+  @Prop({ default: true })
+  active: boolean;
+
+  @Prop()
+  lastLoginAt?: Date;
+}
+
+export const UserSchema = SchemaFactory.createForClass(User);
@@ -3,10 +3,26 @@ import { EncryptionService } from './encryption/encryption.service';
 import { ScoringService } from './scoring/scoring.service';
 import { IdService } from './id/id.service';
 import { SanitizeService } from './sanitize/sanitize.service';
+import { QuizRegistryService } from './quiz-registry/quiz-registry.service';
+import { RecommendationService } from './recommendation/recommendation.service';
 
 @Global()
 @Module({
-  providers: [EncryptionService, ScoringService, IdService, SanitizeService],
-  exports: [EncryptionService, ScoringService, IdService, SanitizeService],
+  providers: [
+    EncryptionService,
+    ScoringService,
+    IdService,
+    SanitizeService,
+    QuizRegistryService,
+    RecommendationService,
+  ],
+  exports: [
+    EncryptionService,
+    ScoringService,
+    IdService,
+    SanitizeService,
+    QuizRegistryService,
+    RecommendationService,
+  ],
 })
 export class CommonModule {}
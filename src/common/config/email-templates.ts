@@ -0,0 +1,25 @@
+import type { EmailCategory, EmailTemplateDefinition, EmailTemplateSelection } from '../types/email';
+
+/**
+ * Every email template. To ship a new email, add its `.html.hbs` and `.txt.hbs` files, an entry
+ * here and select it below. Templates, layouts and partials are checked at startup.
+ */
+export const emailTemplates: Record<string, EmailTemplateDefinition> = {
+  report: {
+    layout: 'default',
+    subject: 'Your Local Marketing Dominance Scorecard — {{businessName}}',
+    preheader:
+      'Your personalized Dominance Playbook is ready. Review your marketing scorecard and roadmap to industry leadership.',
+  },
+  nurture: {
+    layout: 'default',
+    subject: '{{subject}}',
+    preheader: '{{heading}}',
+  },
+};
+
+/** Which template each type of email renders; `tiers` overrides the default for leads in that tier */
+export const emailTemplateSelection: Record<EmailCategory, EmailTemplateSelection> = {
+  report: { default: 'report' },
+  nurture: { default: 'nurture' },
+};
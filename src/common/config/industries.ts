@@ -0,0 +1,216 @@
+import type { IndustryKey, IndustryVariant } from '../types/quiz';
+
+export const INDUSTRY_KEYS: IndustryKey[] = ['general', 'plumbing', 'dental', 'restaurant', 'legal'];
+
+/**
+ * Industry wording for quiz version 1.0 (question overrides are keyed by 1.0 question ids).
+ * Anything not overridden falls back to the base questions, pillars and tiers.
+ */
+export const industryVariants: Record<IndustryKey, IndustryVariant> = {
+  general: {
+    key: 'general',
+    name: 'Local Business',
+    peerLabel: 'local businesses',
+    emailIntro:
+      "Your Dominance Playbook is ready. This isn't just a report — it's a breakdown of where your business stands right now and exactly what's holding you back from dominating your market.",
+  },
+  plumbing: {
+    key: 'plumbing',
+    name: 'Plumbing & Home Services',
+    peerLabel: 'plumbing and home service businesses',
+    emailIntro:
+      "Your Dominance Playbook is ready. It shows how homeowners in your area find a plumber when something breaks — and exactly what's stopping them from calling you first.",
+    questions: {
+      1: {
+        text: 'When a homeowner searches "plumber near me", how often do you show up?',
+        hint: 'Think Google search, the Map Pack, and directories like Angi or Yelp.',
+      },
+      4: {
+        text: 'How easy is it for someone with an emergency to reach you right now?',
+        options: {
+          a: 'Hard to find a number or it goes to voicemail',
+          b: 'One phone number during business hours',
+          c: 'Click-to-call, online booking, and after-hours coverage',
+        },
+      },
+      5: { hint: 'Google reviews mentioning response time and clean, tidy work.' },
+      8: { text: 'How well does your website work on a phone, for someone standing in a flooded kitchen?' },
+    },
+    pillars: {
+      visibility: {
+        impactStatement:
+          "Plumbing jobs are won in the Map Pack. When a pipe bursts, homeowners call one of the first three names they see — if that isn't you, the job goes to a competitor before you knew it existed.",
+      },
+      conversion: {
+        impactStatement:
+          'Urgent jobs go to whoever answers first. Click-to-call, clear service areas and after-hours options turn panicked searchers into booked calls instead of abandoned visits.',
+      },
+      reputation: {
+        impactStatement:
+          'Homeowners are letting a stranger into their house. Recent reviews that mention punctuality, fair pricing and clean work are what make them trust you over the next plumber on the list.',
+      },
+      marketing: {
+        impactStatement:
+          'Emergency work is unpredictable; maintenance and repeat customers are not. Consistent seasonal reminders and follow-ups smooth out the slow months and keep your trucks busy.',
+      },
+      tracking: {
+        impactStatement:
+          "If you can't tell which calls came from Google, referrals or your truck wrap, you can't tell which marketing is paying for itself. Call tracking shows where your best jobs really come from.",
+      },
+    },
+    tiers: {
+      at_risk: {
+        summary: 'Homeowners in your area are calling other plumbers before they ever find you.',
+      },
+      market_leader: {
+        summary: "You're the plumber locals find first. The next step is protecting that position and growing repeat work.",
+      },
+    },
+  },
+  dental: {
+    key: 'dental',
+    name: 'Dental Practice',
+    peerLabel: 'dental practices',
+    emailIntro:
+      "Your Dominance Playbook is ready. It breaks down how prospective patients in your area choose a dentist — and exactly what's keeping new-patient bookings from growing.",
+    questions: {
+      2: { hint: 'Photos of the office and team, services, insurance accepted, hours.' },
+      4: {
+        text: 'How easy is it for a new patient to book an appointment?',
+        options: {
+          a: 'They have to call during office hours',
+          b: 'Call or a contact form we follow up on',
+          c: 'Online booking with clear insurance and new-patient info',
+        },
+      },
+      5: { text: 'How strong are your patient reviews online?' },
+      9: { text: 'Does your website show the team, the office and real patient stories?' },
+    },
+    pillars: {
+      visibility: {
+        impactStatement:
+          "Patients choose a dentist close to home or work. If your practice isn't showing in local results for the treatments you want more of, those new-patient appointments are going to the practice down the street.",
+      },
+      conversion: {
+        impactStatement:
+          'Most patients book outside office hours. Online scheduling, clear insurance information and a simple new-patient path turn website visits into booked chairs.',
+      },
+      reputation: {
+        impactStatement:
+          'Choosing a dentist is personal. Patients read reviews about gentleness, staff friendliness and wait times before they book — a steady stream of recent reviews is your strongest new-patient driver.',
+      },
+      marketing: {
+        impactStatement:
+          'Recall reminders, seasonal promotions and consistent messaging keep existing patients on schedule and your name in front of families looking for a new practice.',
+      },
+      tracking: {
+        impactStatement:
+          "Knowing which channels bring in new patients — and which treatments they book — tells you exactly where to spend. Without it, you're guessing with your marketing budget.",
+      },
+    },
+    tiers: {
+      at_risk: {
+        summary: 'Prospective patients are booking with other practices before they ever find yours.',
+      },
+      growth_ready: {
+        summary: 'Your practice is attracting patients, but small fixes could fill far more appointments.',
+      },
+    },
+  },
+  restaurant: {
+    key: 'restaurant',
+    name: 'Restaurant & Hospitality',
+    peerLabel: 'restaurants',
+    emailIntro:
+      "Your Dominance Playbook is ready. It shows how hungry locals decide where to eat tonight — and exactly what's keeping them from choosing you.",
+    questions: {
+      1: {
+        text: 'When people nearby search for somewhere to eat, how often does your restaurant come up?',
+        hint: 'Google Maps, search, Yelp and delivery apps.',
+      },
+      3: { text: 'Can visitors quickly find your menu, hours and location on your website?' },
+      4: {
+        text: 'How easy is it for guests to reserve a table or place an order?',
+        options: {
+          a: 'Phone only, often unanswered during service',
+          b: 'Phone or one booking / ordering option',
+          c: 'Online reservations and ordering, clearly linked',
+        },
+      },
+      10: { hint: 'Website, Google profile, menus, social platforms and delivery apps.' },
+    },
+    pillars: {
+      visibility: {
+        impactStatement:
+          "Most dining decisions are made on a phone, minutes before leaving. If your restaurant isn't in the Map results with great photos and current hours, hungry guests are walking into someone else's dining room.",
+      },
+      conversion: {
+        impactStatement:
+          'An out-of-date menu, hidden hours or a reservation line nobody answers during service all cost covers. Make it effortless to see the menu and book a table or order.',
+      },
+      reputation: {
+        impactStatement:
+          'Diners trust other diners. Fresh reviews and photos of your food do more to fill tables than any ad — and a few unanswered complaints can quietly empty them.',
+      },
+      marketing: {
+        impactStatement:
+          'Regulars are your margin. Consistent posts, events and email or SMS offers bring guests back on slow nights and keep your restaurant top of mind.',
+      },
+      tracking: {
+        impactStatement:
+          "Knowing whether guests came from Google, social posts or a delivery app tells you which channels actually fill seats. Without that, you can't tell a good promotion from a costly one.",
+      },
+    },
+    tiers: {
+      at_risk: {
+        summary: 'Hungry locals are choosing other restaurants before they ever see your menu.',
+      },
+    },
+  },
+  legal: {
+    key: 'legal',
+    name: 'Law Firm',
+    peerLabel: 'law firms',
+    emailIntro:
+      "Your Dominance Playbook is ready. It breaks down how prospective clients in your area choose an attorney — and exactly what's keeping consultations from reaching your firm.",
+    questions: {
+      3: { text: 'How clearly does your website explain your practice areas and where you take cases?' },
+      4: {
+        text: 'How easy is it for a prospective client to request a consultation?',
+        options: {
+          a: 'A general phone number or email only',
+          b: 'A contact form or intake line during office hours',
+          c: 'Clear intake options including after-hours and online scheduling',
+        },
+      },
+      9: { text: 'Does your website show case results, credentials and client testimonials?' },
+    },
+    pillars: {
+      visibility: {
+        impactStatement:
+          "People facing a legal problem search urgently and call the first credible firm they find. If you aren't visible for your practice areas locally, those consultations go to firms that are.",
+      },
+      conversion: {
+        impactStatement:
+          'Prospective clients are stressed and comparing firms. Clear practice-area pages and a fast, simple intake process are the difference between a consultation and a lost case.',
+      },
+      reputation: {
+        impactStatement:
+          'Hiring an attorney is a high-stakes decision. Reviews, credentials and case results are what convince a prospective client that your firm is the safe choice.',
+      },
+      marketing: {
+        impactStatement:
+          'Referral networks and consistent thought leadership keep your firm top of mind long before someone needs you. Sporadic outreach leaves that pipeline to chance.',
+      },
+      tracking: {
+        impactStatement:
+          'Cases have very different values. Tracking which channels produce signed clients — not just calls — shows you where your marketing spend truly earns a return.',
+      },
+    },
+    tiers: {
+      at_risk: {
+        summary: 'Prospective clients are retaining other firms before they ever find yours.',
+      },
+    },
+  },
+};
@@ -0,0 +1,90 @@
+import type { TierKey } from '../types/scoring';
+import type { NurtureStep } from '../types/nurture';
+
+/**
+ * Follow-up emails after the report email, per tier. A sequence starts when the report email is
+ * sent and stops early when the lead unsubscribes or books. Step ids must be unique and delays
+ * increasing; both are checked at startup.
+ */
+export const nurtureSequences: Record<TierKey, NurtureStep[]> = {
+  at_risk: [
+    {
+      id: 'at_risk_quick_fixes',
+      delayDays: 2,
+      content: 'quick_fixes',
+      subject: '{{count}} quick fixes for your {{pillar}}',
+      heading: 'Start with these fixes',
+      intro:
+        '{{pillar}} is where your scorecard showed the biggest gap. These are the fastest ways to start closing it — most take less than an afternoon.',
+    },
+    {
+      id: 'at_risk_starter_audit',
+      delayDays: 5,
+      content: 'primary_offer',
+      subject: 'Find the leaks costing you customers',
+      heading: 'Want us to find the biggest leaks for you?',
+      intro:
+        'Quick fixes help, but the Starter Audit goes line by line through your listings, website and reviews to show exactly where local customers are slipping away — and what to fix first.',
+    },
+  ],
+  needs_improvement: [
+    {
+      id: 'needs_improvement_quick_fixes',
+      delayDays: 2,
+      content: 'quick_fixes',
+      subject: '{{count}} quick fixes for your {{pillar}}',
+      heading: 'Start with these fixes',
+      intro:
+        'You have a foundation to build on. {{pillar}} is holding it back the most — these are the quickest ways to tighten it up.',
+    },
+    {
+      id: 'needs_improvement_starter_audit',
+      delayDays: 5,
+      content: 'primary_offer',
+      subject: 'Turn sporadic leads into a steady pipeline',
+      heading: 'Get a clear list of what to fix',
+      intro:
+        'The Starter Audit turns your scorecard into a prioritized fix list, so you spend your time on the changes that bring in the most leads.',
+    },
+    {
+      id: 'needs_improvement_blueprint',
+      delayDays: 9,
+      content: 'secondary_offer',
+      subject: 'Your next step toward predictable growth',
+      heading: 'Ready to plan the next 90 days?',
+      intro:
+        'The Growth Blueprint maps out what to do after the fundamentals are fixed, in the order that will move your numbers fastest.',
+    },
+  ],
+  growth_ready: [
+    {
+      id: 'growth_ready_quick_fixes',
+      delayDays: 2,
+      content: 'quick_fixes',
+      subject: '{{count}} quick wins for your {{pillar}}',
+      heading: 'Quick wins worth taking',
+      intro:
+        'Your marketing is working. {{pillar}} is where small improvements will unlock the most new leads — start here.',
+    },
+    {
+      id: 'growth_ready_blueprint',
+      delayDays: 5,
+      content: 'primary_offer',
+      subject: 'Turn momentum into predictable growth',
+      heading: 'Build your Growth Blueprint',
+      intro:
+        'You are closer to the top of your market than most. The Growth Blueprint shows which channels to push next and how to pull ahead of local competitors.',
+    },
+  ],
+  market_leader: [
+    {
+      id: 'market_leader_strategy_call',
+      delayDays: 3,
+      content: 'primary_offer',
+      subject: 'Protecting your lead in {{pillar}} and beyond',
+      heading: "Let's scale what's already working",
+      intro:
+        "You're ahead of most local competitors. On a strategy call we'll look at how to defend that position and where to grow next — starting with {{pillar}}.",
+    },
+  ],
+};
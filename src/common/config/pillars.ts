@@ -1,10 +1,4 @@
-import type { PillarKey } from '../types/scoring';
-
-export interface PillarConfig {
-  key: PillarKey;
-  name: string;
-  impactStatement: string;
-}
+import type { PillarConfig, PillarKey } from '../types/scoring';
 
 export const pillars: Record<PillarKey, PillarConfig> = {
   visibility: {
@@ -38,3 +32,11 @@ export const pillars: Record<PillarKey, PillarConfig> = {
       "If you can't measure it, you can't improve it. Without proper tracking, you're spending time and money on marketing with no way to know what's working. Setting up lead tracking gives you the data to make smarter decisions and maximize ROI.",
   },
 };
+
+export const PILLAR_KEYS = Object.keys(pillars) as PillarKey[];
+
+/**
+ * Business-impact order used to break ties between equally weak pillars:
+ * earlier pillars are recommended first.
+ */
+export const focusPriority: PillarKey[] = ['visibility', 'conversion', 'reputation', 'tracking', 'marketing'];
@@ -7,6 +7,7 @@ export const questions: Question[] = [
     id: 1,
     text: 'How easily can local customers find your business online?',
     hint: 'Think Google search, Maps, and local listings.',
+    pillar: 'visibility',
     options: [
       { key: 'a', label: 'We rarely show up in local search results', tag: 'Needs attention', icon: '❌', points: 0 },
       { key: 'b', label: 'We show up sometimes, but not consistently', tag: 'Could be stronger', icon: '⚠️', points: 5 },
@@ -17,6 +18,7 @@ export const questions: Question[] = [
     id: 2,
     text: 'Is your Google Business Profile fully optimized?',
     hint: 'Photos, services, hours, posts.',
+    pillar: 'visibility',
     options: [
       { key: 'a', label: 'Not claimed or incomplete', tag: 'Missed opportunity', icon: '❌', points: 0 },
       { key: 'b', label: 'Claimed but rarely updated', tag: 'Basic setup', icon: '⚠️', points: 5 },
@@ -26,6 +28,7 @@ export const questions: Question[] = [
   {
     id: 3,
     text: 'How clear is your website about what you do and where you serve?',
+    pillar: 'conversion',
     options: [
       { key: 'a', label: 'Visitors have to figure it out', tag: 'Unclear', icon: '❌', points: 0 },
       { key: 'b', label: 'Some information is clear', tag: 'Needs refinement', icon: '⚠️', points: 5 },
@@ -35,6 +38,7 @@ export const questions: Question[] = [
   {
     id: 4,
     text: 'How easy is it for customers to contact or book you?',
+    pillar: 'conversion',
     options: [
       { key: 'a', label: 'Contact options are hard to find', tag: 'Friction exists', icon: '❌', points: 0 },
       { key: 'b', label: 'One main option (call or form)', tag: 'Usable', icon: '⚠️', points: 5 },
@@ -45,6 +49,7 @@ export const questions: Question[] = [
     id: 5,
     text: 'How strong is your online reputation?',
     hint: 'Reviews & testimonials.',
+    pillar: 'reputation',
     options: [
       { key: 'a', label: 'Few or no reviews', tag: 'Low trust', icon: '❌', points: 0 },
       { key: 'b', label: 'Some reviews, inconsistent', tag: 'Moderate trust', icon: '⚠️', points: 5 },
@@ -54,6 +59,7 @@ export const questions: Question[] = [
   {
     id: 6,
     text: 'How often do you actively market your business?',
+    pillar: 'marketing',
     options: [
       { key: 'a', label: 'Mostly word-of-mouth', tag: 'Unpredictable', icon: '❌', points: 0 },
       { key: 'b', label: 'Occasional posts or promotions', tag: 'Inconsistent', icon: '⚠️', points: 5 },
@@ -63,6 +69,7 @@ export const questions: Question[] = [
   {
     id: 7,
     text: 'Do you track where your leads come from?',
+    pillar: 'tracking',
     options: [
       { key: 'a', label: 'No tracking at all', tag: 'Flying blind', icon: '❌', points: 0 },
       { key: 'b', label: 'Rough idea, not measured', tag: 'Partially tracked', icon: '⚠️', points: 5 },
@@ -72,6 +79,7 @@ export const questions: Question[] = [
   {
     id: 8,
     text: 'How well does your website perform on mobile devices?',
+    pillar: 'tracking',
     options: [
       { key: 'a', label: 'Slow or difficult to use', tag: 'Needs improvement', icon: '❌', points: 0 },
       { key: 'b', label: 'Usable but not optimized', tag: 'Okay', icon: '⚠️', points: 5 },
@@ -81,6 +89,7 @@ export const questions: Question[] = [
   {
     id: 9,
     text: 'How much trust and credibility does your website show?',
+    pillar: 'reputation',
     options: [
       { key: 'a', label: 'No testimonials, photos, or proof', tag: 'Low credibility', icon: '❌', points: 0 },
       { key: 'b', label: 'Some trust elements', tag: 'Building trust', icon: '⚠️', points: 5 },
@@ -91,6 +100,7 @@ export const questions: Question[] = [
     id: 10,
     text: 'How consistent is your branding and messaging online?',
     hint: 'Website, Google profile, social platforms.',
+    pillar: 'marketing',
     options: [
       { key: 'a', label: 'Inconsistent or outdated', tag: 'Confusing', icon: '❌', points: 0 },
       { key: 'b', label: 'Mostly consistent', tag: 'Acceptable', icon: '⚠️', points: 5 },
@@ -98,3 +108,31 @@ export const questions: Question[] = [
     ],
   },
 ];
+
+export const QUIZ_VERSION_1_1 = '1.1';
+
+/** Answering "no website" skips every question about the website */
+const NO_WEBSITE = [{ questionId: 11, answers: ['a' as const] }];
+
+/**
+ * 1.1 asks first whether the business has a website; without one, the website questions
+ * (3, 8 and 9) are skipped and their pillars are scored on the remaining questions.
+ * Branding consistency (10) may be answered N/A by businesses with a single online presence.
+ */
+export const questionsV1_1: Question[] = [
+  {
+    id: 11,
+    text: 'Does your business have a website?',
+    pillar: 'conversion',
+    options: [
+      { key: 'a', label: 'No, we don\'t have a website', tag: 'Missing foundation', icon: '❌', points: 0 },
+      { key: 'b', label: 'Yes, but it\'s outdated or rarely updated', tag: 'Needs a refresh', icon: '⚠️', points: 5 },
+      { key: 'c', label: 'Yes, a current site we keep up to date', tag: 'Solid foundation', icon: '✅', points: 10 },
+    ],
+  },
+  ...questions.map((question): Question => {
+    if ([3, 8, 9].includes(question.id)) return { ...question, skipIf: NO_WEBSITE };
+    if (question.id === 10) return { ...question, allowNotApplicable: true };
+    return question;
+  }),
+];
@@ -0,0 +1,64 @@
+import type { QuizDefinition } from '../types/quiz';
+import { QUIZ_VERSION, QUIZ_VERSION_1_1, questions, questionsV1_1 } from './quiz-questions';
+import { focusPriority, pillars } from './pillars';
+import { tiers } from './tiers';
+import { industryVariants } from './industries';
+import { recommendations, recommendationsV1_1 } from './recommendations';
+
+/** A deep copy, frozen, so a version shares no mutable tables with its source or other versions */
+function snapshot(definition: QuizDefinition): QuizDefinition {
+  return deepFreeze(structuredClone(definition));
+}
+
+function deepFreeze<T>(value: T): T {
+  if (value && typeof value === 'object' && !Object.isFrozen(value)) {
+    Object.freeze(value);
+    for (const child of Object.values(value)) deepFreeze(child);
+  }
+  return value;
+}
+
+/**
+ * Every quiz version ever served, keyed by version string.
+ * Published definitions must never be edited in place — stored responses are
+ * re-scored against them. Each entry is a frozen snapshot of the tables it was published with;
+ * to change questions, tiers or pillars, add a new entry and bump CURRENT_QUIZ_VERSION instead.
+ */
+export const quizRegistry: Record<string, QuizDefinition> = {
+  [QUIZ_VERSION]: snapshot({
+    version: QUIZ_VERSION,
+    questions,
+    pillars,
+    focusPriority,
+    tiers,
+    recommendations,
+    variants: industryVariants,
+  }),
+  [QUIZ_VERSION_1_1]: snapshot({
+    version: QUIZ_VERSION_1_1,
+    questions: questionsV1_1,
+    pillars,
+    focusPriority,
+    tiers,
+    recommendations: recommendationsV1_1,
+    variants: industryVariants,
+  }),
+};
+
+/** Every tier key used by any registered version (for schema enums) */
+export const allTierKeys: string[] = [
+  ...new Set(Object.values(quizRegistry).flatMap((definition) => Object.keys(definition.tiers))),
+];
+
+/**
+ * Version served to new quiz takers, and scored when a submission names none. Stays at 1.0 until
+ * every client sends `quizVersion`: 1.1 has an extra question, so 10-answer clients would get 400s.
+ */
+export const CURRENT_QUIZ_VERSION = QUIZ_VERSION;
+
+/** Look up a quiz definition without throwing (usable outside DI, e.g. schema validators) */
+export function findQuizDefinition(version: string): QuizDefinition | undefined {
+  return Object.prototype.hasOwnProperty.call(quizRegistry, version)
+    ? quizRegistry[version]
+    : undefined;
+}
@@ -0,0 +1,233 @@
+import type { Recommendation } from '../types/recommendation';
+
+/**
+ * Recommendations for quiz version 1.0, keyed by question id and answer.
+ * 'a' answers get the foundational fix; 'b' answers get the next step up.
+ */
+export const recommendations: Recommendation[] = [
+  {
+    id: 'local-search-foundations',
+    questionId: 1,
+    answers: ['a'],
+    title: 'Get listed where local customers search',
+    detail: 'Claim your listings on Google, Bing, Apple Maps and the main directories for your industry, with the same name, address and phone number everywhere.',
+    priority: 'high',
+    effort: 'medium',
+    impact: 'high',
+  },
+  {
+    id: 'local-search-consistency',
+    questionId: 1,
+    answers: ['b'],
+    title: 'Make your local rankings consistent',
+    detail: 'Fix mismatched listings, add location-specific pages for each area you serve, and earn links from local partners and associations.',
+    priority: 'medium',
+    effort: 'medium',
+    impact: 'high',
+  },
+  {
+    id: 'gbp-claim',
+    questionId: 2,
+    answers: ['a'],
+    title: 'Claim and verify your Google Business Profile',
+    detail: 'Verify ownership, choose the right primary category, and fill in services, hours, service area and photos. It is the single fastest way into the Map Pack.',
+    priority: 'high',
+    effort: 'low',
+    impact: 'high',
+  },
+  {
+    id: 'gbp-activity',
+    questionId: 2,
+    answers: ['b'],
+    title: 'Keep your Google Business Profile active',
+    detail: 'Post an update or offer every week, add fresh photos monthly, and answer questions in the Q&A section so Google sees an active business.',
+    priority: 'medium',
+    effort: 'low',
+    impact: 'medium',
+  },
+  {
+    id: 'website-clarity',
+    questionId: 3,
+    answers: ['a'],
+    title: 'Say what you do and where in the first screen',
+    detail: 'Rewrite your homepage headline to name your main service and service area, and give each core service its own page.',
+    priority: 'high',
+    effort: 'medium',
+    impact: 'high',
+  },
+  {
+    id: 'website-clarity-refine',
+    questionId: 3,
+    answers: ['b'],
+    title: 'Tighten your service and location pages',
+    detail: 'Make sure every service page states who it is for, where you offer it and what to do next, without visitors having to scroll.',
+    priority: 'medium',
+    effort: 'medium',
+    impact: 'medium',
+  },
+  {
+    id: 'contact-visible',
+    questionId: 4,
+    answers: ['a'],
+    title: 'Put a call button and a short form on every page',
+    detail: 'Add a click-to-call number in the header and a three-field contact form near the top of each page, so no visitor has to hunt for a way to reach you.',
+    priority: 'high',
+    effort: 'low',
+    impact: 'high',
+  },
+  {
+    id: 'contact-options',
+    questionId: 4,
+    answers: ['b'],
+    title: 'Offer online booking alongside calls',
+    detail: 'Many customers decide outside business hours. Online booking or a request-a-quote form captures them before they move on to a competitor.',
+    priority: 'medium',
+    effort: 'medium',
+    impact: 'high',
+  },
+  {
+    id: 'reviews-start',
+    questionId: 5,
+    answers: ['a'],
+    title: 'Start asking every happy customer for a review',
+    detail: 'Send a short review link by text or email after each job. Ten recent reviews change how new customers see you.',
+    priority: 'high',
+    effort: 'low',
+    impact: 'high',
+  },
+  {
+    id: 'reviews-system',
+    questionId: 5,
+    answers: ['b'],
+    title: 'Make review requests automatic and reply to every review',
+    detail: 'Automate review requests so they go out consistently, and respond to every review — positive or negative — within a couple of days.',
+    priority: 'medium',
+    effort: 'low',
+    impact: 'medium',
+  },
+  {
+    id: 'marketing-plan',
+    questionId: 6,
+    answers: ['a'],
+    title: 'Commit to one marketing channel for 90 days',
+    detail: 'Pick the channel your customers actually use — Google posts, email or social — and publish on a fixed schedule instead of waiting for referrals.',
+    priority: 'medium',
+    effort: 'medium',
+    impact: 'medium',
+  },
+  {
+    id: 'marketing-calendar',
+    questionId: 6,
+    answers: ['b'],
+    title: 'Plan promotions on a monthly calendar',
+    detail: 'Map seasonal offers and posts a month ahead so marketing happens consistently, not only when things are quiet.',
+    priority: 'low',
+    effort: 'low',
+    impact: 'medium',
+  },
+  {
+    id: 'tracking-setup',
+    questionId: 7,
+    answers: ['a'],
+    title: 'Install call tracking and form conversion tracking',
+    detail: 'Set up Google Analytics conversions and a tracking number per channel so you can see which marketing actually brings in customers.',
+    priority: 'high',
+    effort: 'medium',
+    impact: 'high',
+  },
+  {
+    id: 'tracking-review',
+    questionId: 7,
+    answers: ['b'],
+    title: 'Review lead sources every month',
+    detail: 'Ask every new customer how they found you and compare it with your analytics monthly, then move budget toward what works.',
+    priority: 'medium',
+    effort: 'low',
+    impact: 'medium',
+  },
+  {
+    id: 'mobile-fix',
+    questionId: 8,
+    answers: ['a'],
+    title: 'Fix your mobile site speed and layout',
+    detail: 'Compress images, remove heavy plugins and make buttons easy to tap. Most local searches happen on a phone, and slow pages lose visitors in seconds.',
+    priority: 'high',
+    effort: 'high',
+    impact: 'high',
+  },
+  {
+    id: 'mobile-optimise',
+    questionId: 8,
+    answers: ['b'],
+    title: 'Test and tune key pages on mobile',
+    detail: 'Check your homepage and top service pages on a phone, and make sure the call button and form are visible without scrolling.',
+    priority: 'low',
+    effort: 'medium',
+    impact: 'medium',
+  },
+  {
+    id: 'trust-proof',
+    questionId: 9,
+    answers: ['a'],
+    title: 'Add real photos, testimonials and credentials',
+    detail: 'Replace stock images with photos of your team and work, and show reviews, licences and guarantees near your contact options.',
+    priority: 'medium',
+    effort: 'low',
+    impact: 'high',
+  },
+  {
+    id: 'trust-strengthen',
+    questionId: 9,
+    answers: ['b'],
+    title: 'Show local proof on every service page',
+    detail: 'Add a short case study or before-and-after and a relevant testimonial to each service page, naming the neighbourhood where possible.',
+    priority: 'low',
+    effort: 'medium',
+    impact: 'medium',
+  },
+  {
+    id: 'brand-refresh',
+    questionId: 10,
+    answers: ['a'],
+    title: 'Align your name, logo and message everywhere',
+    detail: 'Update your website, Google profile and social accounts so they use the same logo, description, hours and contact details.',
+    priority: 'medium',
+    effort: 'medium',
+    impact: 'medium',
+  },
+  {
+    id: 'brand-polish',
+    questionId: 10,
+    answers: ['b'],
+    title: 'Tidy up outdated profiles',
+    detail: 'Remove or update old social accounts and listings, and write one short brand description to reuse everywhere.',
+    priority: 'low',
+    effort: 'low',
+    impact: 'low',
+  },
+];
+
+/** Version 1.1 adds the website question (11) */
+export const recommendationsV1_1: Recommendation[] = [
+  ...recommendations,
+  {
+    id: 'website-launch',
+    questionId: 11,
+    answers: ['a'],
+    title: 'Launch a simple website for your business',
+    detail: 'A fast one-page site with your services, service area, reviews and a clear way to call or book gives search engines and customers something to land on.',
+    priority: 'high',
+    effort: 'medium',
+    impact: 'high',
+  },
+  {
+    id: 'website-refresh',
+    questionId: 11,
+    answers: ['b'],
+    title: 'Bring your website up to date',
+    detail: 'Update services, prices, hours and photos, and set a monthly reminder to keep them current so visitors never see stale information.',
+    priority: 'medium',
+    effort: 'medium',
+    impact: 'medium',
+  },
+];
@@ -0,0 +1,13 @@
+import type { Role } from '../types/auth';
+
+export const ROLES: Role[] = ['admin', 'sales', 'analyst'];
+
+/**
+ * What each role may see beyond the routes it is allowed on.
+ * Roles without `viewPii` get lead contact fields redacted.
+ */
+export const rolePermissions: Record<Role, { viewPii: boolean }> = {
+  admin: { viewPii: true },
+  sales: { viewPii: true },
+  analyst: { viewPii: false },
+};
@@ -1,5 +1,11 @@
 import type { TierData, TierKey } from '../types/scoring';
 
+/**
+ * Score segments. Tier resolution is driven entirely by scoreMin/scoreMax, which are
+ * validated at startup: whole numbers, contiguous, non-overlapping, covering 0–100.
+ * Published quiz versions snapshot this table: to retune or add a segment, give a new quiz
+ * version its own tier table (adding any new key to TierKey) rather than editing this one.
+ */
 export const tiers: Record<TierKey, TierData> = {
   at_risk: {
     key: 'at_risk',
@@ -91,4 +97,3 @@ export const tiers: Record<TierKey, TierData> = {
   },
 };
 
-export const tierOrder: TierKey[] = ['at_risk', 'needs_improvement', 'growth_ready', 'market_leader'];
@@ -0,0 +1,4 @@
+/** Signed link to a report's PDF, as sent in emails; `token` is EncryptionService.signToken(reportId) */
+export function reportDownloadUrl(appUrl: string, reportId: string, token: string): string {
+  return `${appUrl}/api/report/download/${reportId}?token=${encodeURIComponent(token)}`;
+}
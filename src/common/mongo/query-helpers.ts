@@ -0,0 +1,21 @@
+/** MongoDB duplicate key error code */
+export const DUPLICATE_KEY = 11000;
+
+/** True when an insert or upsert lost a race on a unique index */
+export function isDuplicateKeyError(err: unknown): boolean {
+  return (err as { code?: number } | null)?.code === DUPLICATE_KEY;
+}
+
+/** Case-insensitive whole-value match, e.g. a lead's city; the value is matched literally */
+export function exactMatchPattern(value: string): RegExp {
+  return new RegExp(`^${value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}$`, 'i');
+}
+
+/** `{ [field]: { $gte: from, $lte: to } }` for whichever bounds are set; empty when neither is */
+export function dateRange(field: string, range: { from?: string; to?: string }): Record<string, unknown> {
+  if (!range.from && !range.to) return {};
+  const bounds: Record<string, Date> = {};
+  if (range.from) bounds.$gte = new Date(range.from);
+  if (range.to) bounds.$lte = new Date(range.to);
+  return { [field]: bounds };
+}
@@ -0,0 +1,228 @@
+import { Injectable, Logger, NotFoundException, OnModuleInit } from '@nestjs/common';
+import type { IndustryKey, IndustryVariant, QuizDefinition } from '../types/quiz';
+import type { PillarKey, TierData } from '../types/scoring';
+import { CURRENT_QUIZ_VERSION, findQuizDefinition, quizRegistry } from '../config/quiz-registry';
+
+const SCORE_MIN = 0;
+const SCORE_MAX = 100;
+
+@Injectable()
+export class QuizRegistryService implements OnModuleInit {
+  private readonly logger = new Logger(QuizRegistryService.name);
+  private readonly variantCache = new Map<string, QuizDefinition>();
+
+  /** Fail fast on a misconfigured registry instead of misclassifying leads at runtime */
+  onModuleInit(): void {
+    if (!findQuizDefinition(CURRENT_QUIZ_VERSION)) {
+      throw new Error(`CURRENT_QUIZ_VERSION ${CURRENT_QUIZ_VERSION} is not registered`);
+    }
+
+    for (const definition of Object.values(quizRegistry)) {
+      const errors = [
+        ...this.validateQuestions(definition),
+        ...this.validateTierTable(definition),
+        ...this.validateVariants(definition),
+        ...this.validateRecommendations(definition),
+        ...this.validateFocusPriority(definition),
+      ];
+      if (errors.length) {
+        throw new Error(`Invalid quiz version ${definition.version}: ${errors.join('; ')}`);
+      }
+    }
+    this.logger.log(`Quiz registry validated (${this.versions().join(', ')})`);
+  }
+
+  /** The definition new quiz takers are served and scored against */
+  current(industry?: IndustryKey): QuizDefinition {
+    return this.resolve(CURRENT_QUIZ_VERSION, industry);
+  }
+
+  /**
+   * Resolve a definition by version, e.g. the one recorded on a stored response.
+   * With an industry, the variant's wording is layered over the base copy.
+   */
+  resolve(version: string, industry?: IndustryKey): QuizDefinition {
+    const definition = findQuizDefinition(version);
+    if (!definition) {
+      throw new NotFoundException(`Quiz version ${version} not found`);
+    }
+    if (!industry || industry === 'general') return definition;
+
+    const cacheKey = `${version}:${industry}`;
+    let resolved = this.variantCache.get(cacheKey);
+    if (!resolved) {
+      resolved = this.applyVariant(definition, this.variant(version, industry));
+      this.variantCache.set(cacheKey, resolved);
+    }
+    return resolved;
+  }
+
+  /** An industry's variant copy for a version */
+  variant(version: string, industry: IndustryKey = 'general'): IndustryVariant {
+    const variant = this.resolve(version).variants[industry];
+    if (!variant) {
+      throw new NotFoundException(`Industry ${industry} not available for quiz version ${version}`);
+    }
+    return variant;
+  }
+
+  /** All registered versions */
+  versions(): string[] {
+    return Object.keys(quizRegistry);
+  }
+
+  /** A definition's tiers, lowest score range first */
+  orderedTiers(definition: QuizDefinition): TierData[] {
+    return Object.values(definition.tiers).sort((a, b) => a.scoreMin - b.scoreMin);
+  }
+
+  private applyVariant(definition: QuizDefinition, variant: IndustryVariant): QuizDefinition {
+    const questions = definition.questions.map((question) => {
+      const override = variant.questions?.[question.id];
+      if (!override) return question;
+      return {
+        ...question,
+        text: override.text ?? question.text,
+        hint: override.hint ?? question.hint,
+        options: question.options.map((option) => ({
+          ...option,
+          label: override.options?.[option.key] ?? option.label,
+        })) as typeof question.options,
+      };
+    });
+
+    const pillars = { ...definition.pillars };
+    for (const [key, override] of Object.entries(variant.pillars ?? {})) {
+      const pillar = key as keyof typeof pillars;
+      pillars[pillar] = { ...pillars[pillar], ...override };
+    }
+
+    const tiers = { ...definition.tiers };
+    for (const [key, override] of Object.entries(variant.tiers ?? {})) {
+      const tier = key as keyof typeof tiers;
+      tiers[tier] = { ...tiers[tier], ...override };
+    }
+
+    return { ...definition, questions, pillars, tiers, industry: variant.key };
+  }
+
+  /** Question ids must be unique; skip conditions must point at an earlier question's options */
+  private validateQuestions(definition: QuizDefinition): string[] {
+    const errors: string[] = [];
+    definition.questions.forEach((question, index) => {
+      const earlier = definition.questions.slice(0, index);
+      if (earlier.some((q) => q.id === question.id)) errors.push(`duplicate question id ${question.id}`);
+
+      for (const condition of question.skipIf ?? []) {
+        const source = earlier.find((q) => q.id === condition.questionId);
+        if (!source) {
+          errors.push(`question ${question.id} skips on question ${condition.questionId}, which doesn't come before it`);
+          continue;
+        }
+        for (const answer of condition.answers) {
+          if (!source.options.some((o) => o.key === answer)) {
+            errors.push(`question ${question.id} skips on unknown option ${answer} of question ${source.id}`);
+          }
+        }
+      }
+    });
+    return errors;
+  }
+
+  /** Variant overrides may only target questions, pillars and tiers that exist in the version */
+  private validateVariants(definition: QuizDefinition): string[] {
+    const errors: string[] = [];
+    const questionIds = new Set(definition.questions.map((q) => q.id));
+
+    if (!definition.variants.general) errors.push('missing the general variant');
+
+    for (const [key, variant] of Object.entries(definition.variants)) {
+      if (variant.key !== key) errors.push(`variant "${key}" declares key "${variant.key}"`);
+      for (const id of Object.keys(variant.questions ?? {})) {
+        if (!questionIds.has(Number(id))) errors.push(`variant ${key} overrides unknown question ${id}`);
+      }
+      for (const pillar of Object.keys(variant.pillars ?? {})) {
+        if (!(pillar in definition.pillars)) errors.push(`variant ${key} overrides unknown pillar ${pillar}`);
+      }
+      for (const tier of Object.keys(variant.tiers ?? {})) {
+        if (!(tier in definition.tiers)) errors.push(`variant ${key} overrides unknown tier ${tier}`);
+      }
+    }
+    return errors;
+  }
+
+  /** The focus tie-break order must list every pillar exactly once */
+  private validateFocusPriority(definition: QuizDefinition): string[] {
+    const listed = new Set(definition.focusPriority);
+    const pillarKeys = Object.keys(definition.pillars);
+    if (listed.size !== definition.focusPriority.length) return ['focusPriority lists a pillar twice'];
+    const missing = pillarKeys.filter((key) => !listed.has(key as PillarKey));
+    const unknown = definition.focusPriority.filter((key) => !pillarKeys.includes(key));
+    return [
+      ...missing.map((key) => `focusPriority is missing pillar ${key}`),
+      ...unknown.map((key) => `focusPriority lists unknown pillar ${key}`),
+    ];
+  }
+
+  /** Recommendations must have unique ids and point at real questions and options */
+  private validateRecommendations(definition: QuizDefinition): string[] {
+    const errors: string[] = [];
+    const seen = new Set<string>();
+
+    for (const rec of definition.recommendations) {
+      if (seen.has(rec.id)) errors.push(`duplicate recommendation id ${rec.id}`);
+      seen.add(rec.id);
+
+      const question = definition.questions.find((q) => q.id === rec.questionId);
+      if (!question) {
+        errors.push(`recommendation ${rec.id} targets unknown question ${rec.questionId}`);
+        continue;
+      }
+      for (const answer of rec.answers) {
+        if (!question.options.some((o) => o.key === answer)) {
+          errors.push(`recommendation ${rec.id} targets unknown option ${answer} on question ${rec.questionId}`);
+        }
+      }
+    }
+    return errors;
+  }
+
+  /**
+   * Check that tier ranges are integer, contiguous, non-overlapping and cover 0–100.
+   * Returns a list of problems (empty when valid).
+   */
+  private validateTierTable(definition: QuizDefinition): string[] {
+    const errors: string[] = [];
+    const ordered = this.orderedTiers(definition);
+
+    if (!ordered.length) return ['no tiers defined'];
+
+    for (const [key, tier] of Object.entries(definition.tiers)) {
+      if (tier.key !== key) errors.push(`tier "${key}" declares key "${tier.key}"`);
+      if (!Number.isInteger(tier.scoreMin) || !Number.isInteger(tier.scoreMax)) {
+        errors.push(`${key} range must use whole numbers`);
+      }
+      if (tier.scoreMin > tier.scoreMax) errors.push(`${key} has scoreMin > scoreMax`);
+    }
+
+    if (ordered[0].scoreMin !== SCORE_MIN) {
+      errors.push(`lowest tier ${ordered[0].key} must start at ${SCORE_MIN}`);
+    }
+    const last = ordered[ordered.length - 1];
+    if (last.scoreMax !== SCORE_MAX) {
+      errors.push(`highest tier ${last.key} must end at ${SCORE_MAX}`);
+    }
+
+    for (let i = 1; i < ordered.length; i++) {
+      const prev = ordered[i - 1];
+      const next = ordered[i];
+      if (next.scoreMin <= prev.scoreMax) {
+        errors.push(`${prev.key} and ${next.key} overlap`);
+      } else if (next.scoreMin !== prev.scoreMax + 1) {
+        errors.push(`gap between ${prev.key} and ${next.key}`);
+      }
+    }
+
+    return errors;
+  }
+}
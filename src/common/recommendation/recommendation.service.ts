@@ -0,0 +1,55 @@
+import { Injectable } from '@nestjs/common';
+import { QuizRegistryService } from '../quiz-registry/quiz-registry.service';
+import { ScoringService } from '../scoring/scoring.service';
+import type { ScoringResult } from '../types/scoring';
+import type { ActionPlanItem, Rating } from '../types/recommendation';
+
+const RATING_WEIGHT: Record<Rating, number> = { low: 1, medium: 2, high: 3 };
+
+@Injectable()
+export class RecommendationService {
+  constructor(
+    private registry: QuizRegistryService,
+    private scoringService: ScoringService,
+  ) {}
+
+  /**
+   * Match a scored response's answers against its version's catalogue and rank the result:
+   * priority, then impact, then lowest effort, then weakest pillar, then question order.
+   */
+  buildActionPlan(
+    result: Pick<ScoringResult, 'quizVersion' | 'answers' | 'pillarScores' | 'pillarMaxima' | 'unscoredPillars'>,
+  ): ActionPlanItem[] {
+    const definition = this.registry.resolve(result.quizVersion);
+    const pillarOrder = this.scoringService.rankPillars(result).map((area) => area.pillar);
+
+    const matched = definition.recommendations.flatMap((rec) => {
+      const index = definition.questions.findIndex((q) => q.id === rec.questionId);
+      const answer = result.answers[index];
+      if (answer === undefined || answer === 'na' || !rec.answers.includes(answer)) return [];
+      return [{ rec, index, answer, pillar: definition.questions[index].pillar }];
+    });
+
+    matched.sort(
+      (a, b) =>
+        RATING_WEIGHT[b.rec.priority] - RATING_WEIGHT[a.rec.priority] ||
+        RATING_WEIGHT[b.rec.impact] - RATING_WEIGHT[a.rec.impact] ||
+        RATING_WEIGHT[a.rec.effort] - RATING_WEIGHT[b.rec.effort] ||
+        pillarOrder.indexOf(a.pillar) - pillarOrder.indexOf(b.pillar) ||
+        a.index - b.index,
+    );
+
+    return matched.map(({ rec, answer, pillar }, i) => ({
+      rank: i + 1,
+      id: rec.id,
+      questionId: rec.questionId,
+      answer,
+      pillar,
+      title: rec.title,
+      detail: rec.detail,
+      priority: rec.priority,
+      effort: rec.effort,
+      impact: rec.impact,
+    }));
+  }
+}
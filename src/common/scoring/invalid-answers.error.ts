@@ -0,0 +1,7 @@
+/** Answers that don't fit the quiz definition they're scored against */
+export class InvalidAnswersError extends Error {
+  constructor(readonly problems: string[]) {
+    super(`Invalid answers: ${problems.join('; ')}`);
+    this.name = 'InvalidAnswersError';
+  }
+}
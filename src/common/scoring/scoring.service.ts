@@ -1,47 +1,195 @@
 import { Injectable } from '@nestjs/common';
-import type { AnswerKey } from '../types/quiz';
-import type { PillarScores, ScoringResult, TierKey } from '../types/scoring';
-import { tiers } from '../config/tiers';
-import { questions } from '../config/quiz-questions';
+import type { IndustryKey, QuizAnswer, QuizDefinition } from '../types/quiz';
+import type { FocusArea, PillarKey, PillarScores, ScoringResult, TierKey } from '../types/scoring';
+import { QuizRegistryService } from '../quiz-registry/quiz-registry.service';
+import { InvalidAnswersError } from './invalid-answers.error';
 
-const POINTS: Record<AnswerKey, number> = { a: 0, b: 5, c: 10 };
+const ANSWER_KEYS: QuizAnswer[] = ['a', 'b', 'c'];
+
+/** Focus areas mentioned by default in reports and emails */
+const FOCUS_AREA_LIMIT = 3;
+
+type FocusInput = Pick<ScoringResult, 'quizVersion' | 'pillarScores' | 'pillarMaxima' | 'unscoredPillars'>;
 
 @Injectable()
 export class ScoringService {
-  calculateScore(answers: AnswerKey[]): ScoringResult {
-    if (answers.length !== questions.length) {
-      throw new Error(`Expected ${questions.length} answers, got ${answers.length}`);
+  constructor(private registry: QuizRegistryService) {}
+
+  /**
+   * Score answers against the given quiz version (defaults to the current one).
+   * The industry only affects the tier copy returned, never the score.
+   * Throws InvalidAnswersError when the answers don't fit the definition.
+   */
+  calculateScore(answers: QuizAnswer[], quizVersion?: string, industry?: IndustryKey): ScoringResult {
+    const definition = quizVersion
+      ? this.registry.resolve(quizVersion, industry)
+      : this.registry.current(industry);
+
+    const errors = this.validateAnswers(answers, definition);
+    if (errors.length) {
+      throw new InvalidAnswersError(errors);
     }
 
-    const totalScore = answers.reduce((sum, key) => sum + POINTS[key], 0);
-    const tier = this.getTier(totalScore);
-    const pillarScores = this.calculatePillarScores(answers);
+    const scored = answers.map((answer) => answer !== 'na');
+    const pillarMaxima = this.getPillarMaxima(definition);
+    const earned = this.calculatePillarScores(answers, definition);
+    const answeredMaxima = this.sumByPillar(definition, (index) =>
+      scored[index] ? this.bestPoints(definition, index) : 0,
+    );
+
+    // Renormalise each pillar over its answered questions so skipped ones don't count as zero
+    const pillarScores = { ...earned };
+    const unscoredPillars: PillarKey[] = [];
+    for (const pillar of Object.keys(pillarScores) as PillarKey[]) {
+      if (answeredMaxima[pillar] > 0) {
+        pillarScores[pillar] = Math.round((earned[pillar] / answeredMaxima[pillar]) * pillarMaxima[pillar]);
+      } else if (pillarMaxima[pillar] > 0) {
+        unscoredPillars.push(pillar);
+      }
+    }
+
+    const totalScore = this.normalize(this.sum(earned), this.sum(answeredMaxima));
+    const tier = this.getTier(totalScore, definition);
 
     return {
+      quizVersion: definition.version,
       totalScore,
       tier,
-      tierData: tiers[tier],
+      tierData: definition.tiers[tier],
       pillarScores,
+      pillarMaxima,
+      unscoredPillars,
       answers,
     };
   }
 
-  private calculatePillarScores(answers: AnswerKey[]): PillarScores {
-    const p = (index: number) => POINTS[answers[index]];
+  /**
+   * Check answers against a definition's questions, N/A allowances and skip conditions.
+   * Returns a list of problems (empty when valid).
+   */
+  validateAnswers(answers: QuizAnswer[], definition: QuizDefinition): string[] {
+    const { questions } = definition;
+    if (answers.length !== questions.length) {
+      return [`Expected ${questions.length} answers, got ${answers.length}`];
+    }
+
+    const errors: string[] = [];
+    const skipped = this.getSkippedQuestionIds(answers, definition);
+
+    questions.forEach((question, index) => {
+      const answer = answers[index];
+      if (skipped.has(question.id)) {
+        if (answer !== 'na') errors.push(`Question ${question.id} is skipped and must be answered 'na'`);
+      } else if (answer === 'na') {
+        if (!question.allowNotApplicable) errors.push(`Question ${question.id} does not allow 'na'`);
+      } else if (!ANSWER_KEYS.includes(answer)) {
+        errors.push(`Question ${question.id} has invalid answer '${answer}'`);
+      }
+    });
+
+    return errors;
+  }
+
+  /** Ids of questions skipped by another question's answer (answers may be partial) */
+  getSkippedQuestionIds(answers: (QuizAnswer | undefined)[], definition: QuizDefinition): Set<number> {
+    const { questions } = definition;
+    const answerFor = (questionId: number) => answers[questions.findIndex((q) => q.id === questionId)];
 
-    return {
-      visibility: p(0) + p(1),  // Q1 (local search) + Q2 (GBP)
-      conversion: p(2) + p(3),  // Q3 (website clarity) + Q4 (contact ease)
-      reputation: p(4) + p(8),  // Q5 (reviews) + Q9 (credibility)
-      marketing: p(5) + p(9),   // Q6 (marketing frequency) + Q10 (branding)
-      tracking: p(6) + p(7),    // Q7 (lead tracking) + Q8 (mobile)
-    };
+    const skipped = new Set<number>();
+    for (const question of questions) {
+      const matches = (question.skipIf ?? []).some((condition) => {
+        const answer = answerFor(condition.questionId);
+        return answer !== undefined && answer !== 'na' && condition.answers.includes(answer);
+      });
+      if (matches) skipped.add(question.id);
+    }
+    return skipped;
+  }
+
+  /** Highest achievable score per pillar, derived from each question's options, pillar and weight */
+  getPillarMaxima(definition: QuizDefinition): PillarScores {
+    return this.sumByPillar(definition, (index) => this.bestPoints(definition, index));
   }
 
-  private getTier(score: number): TierKey {
-    if (score <= 30) return 'at_risk';
-    if (score <= 55) return 'needs_improvement';
-    if (score <= 75) return 'growth_ready';
-    return 'market_leader';
+  /**
+   * Scored pillars ordered weakest first by share of their maximum. Ties are broken by the
+   * version's focusPriority, so equally weak pillars always come out in the same order.
+   */
+  rankPillars(result: FocusInput): FocusArea[] {
+    const { focusPriority } = this.registry.resolve(result.quizVersion);
+    return (Object.keys(result.pillarScores) as PillarKey[])
+      .filter((pillar) => !result.unscoredPillars.includes(pillar))
+      .map((pillar) => {
+        const max = result.pillarMaxima[pillar];
+        const score = result.pillarScores[pillar];
+        return { pillar, score, max, ratio: max > 0 ? score / max : 1 };
+      })
+      .sort((a, b) => a.ratio - b.ratio || focusPriority.indexOf(a.pillar) - focusPriority.indexOf(b.pillar));
+  }
+
+  /** Up to `limit` pillars to work on, weakest first; pillars already at their maximum are left out */
+  getFocusAreas(result: FocusInput, limit = FOCUS_AREA_LIMIT): FocusArea[] {
+    return this.rankPillars(result)
+      .filter((area) => area.ratio < 1)
+      .slice(0, limit);
+  }
+
+  /** The single weakest pillar (the highest-priority pillar when nothing was scored) */
+  getLowestPillar(result: FocusInput): PillarKey {
+    return this.rankPillars(result)[0]?.pillar ?? this.registry.resolve(result.quizVersion).focusPriority[0];
+  }
+
+  /**
+   * Change in a pillar between two attempts, in the current attempt's points. A pillar's maximum
+   * can differ between quiz versions (conversion is 20 in 1.0 and 30 in 1.1), so the previous
+   * score is rescaled to the current maximum before subtracting.
+   */
+  pillarChange(current: number, currentMax: number, previous: number, previousMax: number): number {
+    if (currentMax === previousMax) return current - previous;
+    const rescaled = previousMax > 0 ? Math.round((previous / previousMax) * currentMax) : 0;
+    return current - rescaled;
+  }
+
+  private calculatePillarScores(answers: QuizAnswer[], definition: QuizDefinition): PillarScores {
+    return this.sumByPillar(definition, (index) => {
+      const option = definition.questions[index].options.find((o) => o.key === answers[index]);
+      return option?.points ?? 0;
+    });
+  }
+
+  private bestPoints(definition: QuizDefinition, questionIndex: number): number {
+    return Math.max(...definition.questions[questionIndex].options.map((o) => o.points));
+  }
+
+  /** Sum weighted per-question points into their declared pillars */
+  private sumByPillar(
+    definition: QuizDefinition,
+    pointsAt: (questionIndex: number) => number,
+  ): PillarScores {
+    const scores = { visibility: 0, conversion: 0, reputation: 0, marketing: 0, tracking: 0 };
+    definition.questions.forEach((question, index) => {
+      scores[question.pillar] += pointsAt(index) * (question.weight ?? 1);
+    });
+    return scores;
+  }
+
+  private sum(scores: PillarScores): number {
+    return Object.values(scores).reduce((total, score) => total + score, 0);
+  }
+
+  /** Scale weighted points to a 0–100 total */
+  private normalize(earned: number, max: number): number {
+    return max > 0 ? Math.round((earned / max) * 100) : 0;
+  }
+
+  /** Resolve the tier whose range contains the score (ranges are validated at startup) */
+  private getTier(score: number, definition: QuizDefinition): TierKey {
+    const tier = this.registry
+      .orderedTiers(definition)
+      .find((t) => score >= t.scoreMin && score <= t.scoreMax);
+    if (!tier) {
+      throw new Error(`No tier covers score ${score} in quiz version ${definition.version}`);
+    }
+    return tier.key;
   }
 }
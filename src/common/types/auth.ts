@@ -0,0 +1,16 @@
+import type { Request } from 'express';
+
+export type Role = 'admin' | 'sales' | 'analyst';
+
+/** The internal user a request was authenticated as */
+export interface AuthUser {
+  id: string;
+  email: string;
+  name: string;
+  role: Role;
+  via: 'session' | 'api_key';
+}
+
+export interface AuthenticatedRequest extends Request {
+  user?: AuthUser;
+}
@@ -0,0 +1,20 @@
+import type { TierKey } from './scoring';
+
+/** Kinds of email we send. Each has its own templates, and recipients can opt out of each separately. */
+export type EmailCategory = 'report' | 'nurture';
+
+/** A template in `src/email/templates`: `<name>.html.hbs` plus `<name>.txt.hbs` for the plain-text part */
+export interface EmailTemplateDefinition {
+  /** Wraps the body: `layouts/<layout>.html.hbs` and `layouts/<layout>.txt.hbs` */
+  layout: string;
+  /** Handlebars, rendered with the same data as the body */
+  subject: string;
+  /** Inbox preview text; Handlebars like the subject */
+  preheader: string;
+}
+
+/** The template an email type uses, optionally a different one per tier */
+export interface EmailTemplateSelection {
+  default: string;
+  tiers?: Partial<Record<TierKey, string>>;
+}
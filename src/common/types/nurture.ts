@@ -0,0 +1,22 @@
+/**
+ * What a nurture email shows besides its copy:
+ * - quick_fixes:     the top action-plan items, starting with the lowest pillar's
+ * - primary_offer:   the tier's primary CTA
+ * - secondary_offer: the tier's secondary CTA
+ */
+export type NurtureContent = 'quick_fixes' | 'primary_offer' | 'secondary_offer';
+
+/** One email in a tier's sequence. `{{pillar}}` and `{{count}}` are filled in when it is sent. */
+export interface NurtureStep {
+  id: string;
+  /** Days after the report email */
+  delayDays: number;
+  content: NurtureContent;
+  subject: string;
+  heading: string;
+  intro: string;
+}
+
+export type NurtureStatus = 'active' | 'completed' | 'stopped';
+
+export type NurtureStopReason = 'unsubscribed' | 'booked' | 'send_failed';
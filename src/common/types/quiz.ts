@@ -1,5 +1,19 @@
+import type { PillarConfig, PillarKey, TierData, TierKey } from './scoring';
+import type { Recommendation } from './recommendation';
+
 export type AnswerKey = 'a' | 'b' | 'c';
 
+export type IndustryKey = 'general' | 'plumbing' | 'dental' | 'restaurant' | 'legal';
+
+/** A recorded answer: an option key, or 'na' for skipped / not-applicable questions */
+export type QuizAnswer = AnswerKey | 'na';
+
+/** Skip a question when an earlier question was answered with one of `answers` */
+export interface SkipCondition {
+  questionId: number;
+  answers: AnswerKey[];
+}
+
 export interface AnswerOption {
   key: AnswerKey;
   label: string;
@@ -12,5 +26,49 @@ export interface Question {
   id: number;
   text: string;
   hint?: string;
+  /** Pillar this question's points count towards */
+  pillar: PillarKey;
+  /** Multiplier applied to this question's points (default 1) */
+  weight?: number;
+  /** Offer a "not applicable" answer that excludes the question from scoring */
+  allowNotApplicable?: boolean;
+  /** Skip this question (recorded as 'na') when any condition matches */
+  skipIf?: SkipCondition[];
   options: [AnswerOption, AnswerOption, AnswerOption];
 }
+
+/**
+ * Industry-specific copy layered over a quiz version. Only wording changes —
+ * questions, options, points and pillar mapping are shared so scores stay comparable.
+ */
+export interface IndustryVariant {
+  key: IndustryKey;
+  name: string;
+  /** Opening paragraph of the report email */
+  emailIntro: string;
+  /** Plural peer group used in benchmarks, e.g. "dental practices" */
+  peerLabel: string;
+  /** Wording overrides keyed by question id */
+  questions?: Record<number, { text?: string; hint?: string; options?: Partial<Record<AnswerKey, string>> }>;
+  pillars?: Partial<Record<PillarKey, Pick<PillarConfig, 'impactStatement'>>>;
+  tiers?: Partial<Record<TierKey, Partial<Pick<TierData, 'summary' | 'descriptionBlock' | 'bullets'>>>>;
+}
+
+/**
+ * A complete, immutable quiz version: everything needed to score a response
+ * exactly as it was scored when taken.
+ */
+export interface QuizDefinition {
+  version: string;
+  questions: Question[];
+  pillars: Record<PillarKey, PillarConfig>;
+  /** Tie-break order for focus areas: every pillar once, highest business impact first */
+  focusPriority: PillarKey[];
+  tiers: Record<TierKey, TierData>;
+  /** Action-plan catalogue, keyed by question id and answer */
+  recommendations: Recommendation[];
+  /** Industry wording variants available for this version */
+  variants: Record<IndustryKey, IndustryVariant>;
+  /** Set on definitions resolved for a specific industry */
+  industry?: IndustryKey;
+}
@@ -0,0 +1,30 @@
+import type { AnswerKey } from './quiz';
+import type { PillarKey } from './scoring';
+
+export type Rating = 'low' | 'medium' | 'high';
+
+/** A catalogue entry: advice for a question answered with one of `answers` */
+export interface Recommendation {
+  id: string;
+  questionId: number;
+  answers: AnswerKey[];
+  title: string;
+  detail: string;
+  priority: Rating;
+  effort: Rating;
+  impact: Rating;
+}
+
+/** A recommendation matched to a response, in action-plan order (rank 1 first) */
+export interface ActionPlanItem {
+  rank: number;
+  id: string;
+  questionId: number;
+  answer: AnswerKey;
+  pillar: PillarKey;
+  title: string;
+  detail: string;
+  priority: Rating;
+  effort: Rating;
+  impact: Rating;
+}
@@ -1,4 +1,4 @@
-import type { AnswerKey } from './quiz';
+import type { QuizAnswer } from './quiz';
 
 export type TierKey = 'at_risk' | 'needs_improvement' | 'growth_ready' | 'market_leader';
 
@@ -10,6 +10,12 @@ export interface TierCTA {
 
 export type PillarKey = 'visibility' | 'conversion' | 'reputation' | 'marketing' | 'tracking';
 
+export interface PillarConfig {
+  key: PillarKey;
+  name: string;
+  impactStatement: string;
+}
+
 export interface PillarScores {
   visibility: number;
   conversion: number;
@@ -31,10 +37,23 @@ export interface TierData {
   secondaryCTA?: TierCTA;
 }
 
+/** A pillar worth working on, weakest first */
+export interface FocusArea {
+  pillar: PillarKey;
+  score: number;
+  max: number;
+  /** score / max, 0–1 */
+  ratio: number;
+}
+
 export interface ScoringResult {
+  quizVersion: string;
   totalScore: number;
   tier: TierKey;
   tierData: TierData;
   pillarScores: PillarScores;
-  answers: AnswerKey[];
+  pillarMaxima: PillarScores;
+  /** Pillars whose questions were all skipped or not applicable */
+  unscoredPillars: PillarKey[];
+  answers: QuizAnswer[];
 }
@@ -0,0 +1,25 @@
+import { Body, Controller, Headers, HttpCode, Post, RawBodyRequest, Req } from '@nestjs/common';
+import { SkipThrottle } from '@nestjs/throttler';
+import { Request } from 'express';
+import { DeliveryService, ResendWebhookEvent } from './delivery.service';
+
+/** Inbound webhooks from the email provider; access is by the provider's signature */
+@Controller('webhooks')
+@SkipThrottle() // the provider sends events in bursts from a few IPs
+export class DeliveryWebhookController {
+  constructor(private deliveryService: DeliveryService) {}
+
+  @Post('resend')
+  @HttpCode(200)
+  async resend(
+    @Req() req: RawBodyRequest<Request>,
+    @Headers('svix-id') id: string | undefined,
+    @Headers('svix-timestamp') timestamp: string | undefined,
+    @Headers('svix-signature') signature: string | undefined,
+    @Body() event: ResendWebhookEvent,
+  ) {
+    this.deliveryService.verifySignature({ id, timestamp, signature }, req.rawBody);
+    await this.deliveryService.recordResendEvent(id!, event);
+    return { received: true };
+  }
+}
@@ -0,0 +1,12 @@
+import { Module } from '@nestjs/common';
+import { DeliveryWebhookController } from './delivery-webhook.controller';
+import { DeliveryService } from './delivery.service';
+import { EmailModule } from '../email/email.module';
+import { ReportModule } from '../report/report.module';
+
+@Module({
+  imports: [EmailModule, ReportModule],
+  controllers: [DeliveryWebhookController],
+  providers: [DeliveryService],
+})
+export class DeliveryModule {}
@@ -0,0 +1,179 @@
+import { Injectable, Logger, ServiceUnavailableException, UnauthorizedException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model } from 'mongoose';
+import { createHmac, timingSafeEqual } from 'crypto';
+import {
+  BounceType,
+  DELIVERY_STATUS_RANK,
+  DELIVERY_STATUSES,
+  DeliveryEvent,
+  DeliveryEventType,
+  DeliveryStatus,
+  EmailDelivery,
+  EmailDeliveryDocument,
+} from '../email/email-delivery.schema';
+import { EMAIL_CATEGORIES } from '../email/suppression.schema';
+import { SuppressionService } from '../email/suppression.service';
+import { EmailStatus, Report, ReportDocument } from '../report/report.schema';
+
+/** Webhooks signed longer ago than this are rejected as replays */
+const SIGNATURE_TOLERANCE_SECONDS = 5 * 60;
+
+/** Events kept per message; opens and clicks can repeat without limit */
+const MAX_EVENTS = 50;
+
+/** Resend's webhook body, reduced to the fields we use */
+export interface ResendWebhookEvent {
+  type: string;
+  created_at: string;
+  data: {
+    email_id: string;
+    bounce?: { type?: string; message?: string };
+    click?: { link?: string };
+  };
+}
+
+/** Svix headers on every Resend webhook */
+export interface WebhookSignatureHeaders {
+  id?: string;
+  timestamp?: string;
+  signature?: string;
+}
+
+const RESEND_EVENT_TYPES: Record<string, DeliveryEventType> = {
+  'email.delivery_delayed': 'delayed',
+  'email.delivered': 'delivered',
+  'email.bounced': 'bounced',
+  'email.complained': 'complained',
+  'email.opened': 'opened',
+  'email.clicked': 'clicked',
+};
+
+/**
+ * Records what the email provider reports about sent messages. Hard bounces and spam complaints
+ * put the address on the suppression list, and a report email's status follows its message.
+ */
+@Injectable()
+export class DeliveryService {
+  private readonly logger = new Logger(DeliveryService.name);
+  private readonly secret?: Buffer;
+
+  constructor(
+    @InjectModel(EmailDelivery.name) private deliveryModel: Model<EmailDeliveryDocument>,
+    @InjectModel(Report.name) private reportModel: Model<ReportDocument>,
+    private suppression: SuppressionService,
+    config: ConfigService,
+  ) {
+    const secret = config.get<string>('RESEND_WEBHOOK_SECRET');
+    if (secret) {
+      this.secret = Buffer.from(secret.replace(/^whsec_/, ''), 'base64');
+      if (!this.secret.length) {
+        throw new Error('RESEND_WEBHOOK_SECRET must be the whsec_… signing secret of the Resend webhook');
+      }
+    } else {
+      this.logger.warn('Delivery webhooks are rejected: RESEND_WEBHOOK_SECRET is not set');
+    }
+  }
+
+  /**
+   * Check a webhook's Svix signature: an HMAC-SHA256 of `id.timestamp.body` under the signing secret.
+   * The header may list several signatures while the secret is being rotated; one must match.
+   */
+  verifySignature(headers: WebhookSignatureHeaders, rawBody: Buffer | undefined): void {
+    // 503 rather than 401 so the provider keeps retrying until the secret is configured
+    if (!this.secret) {
+      throw new ServiceUnavailableException('Delivery webhooks are not configured');
+    }
+
+    const { id, timestamp, signature } = headers;
+    const signedAt = Number(timestamp);
+    if (
+      !id ||
+      !signature ||
+      !rawBody ||
+      !Number.isInteger(signedAt) ||
+      Math.abs(Date.now() / 1000 - signedAt) > SIGNATURE_TOLERANCE_SECONDS
+    ) {
+      throw new UnauthorizedException('Invalid webhook signature');
+    }
+
+    const expected = createHmac('sha256', this.secret).update(`${id}.${timestamp}.`).update(rawBody).digest();
+    const valid = signature.split(' ').some((entry) => {
+      const [version, value] = entry.split(',');
+      const candidate = Buffer.from(value ?? '', 'base64');
+      return version === 'v1' && candidate.length === expected.length && timingSafeEqual(candidate, expected);
+    });
+    if (!valid) {
+      throw new UnauthorizedException('Invalid webhook signature');
+    }
+  }
+
+  /**
+   * Apply one Resend event. Unknown messages (sent before tracking, or by another app) are ignored.
+   * Every effect is idempotent and runs before the event is recorded, so a webhook that failed
+   * halfway is completed when the provider retries it.
+   */
+  async recordResendEvent(webhookId: string, event: ResendWebhookEvent): Promise<void> {
+    const type = RESEND_EVENT_TYPES[event.type];
+    const messageId = event.data?.email_id;
+    if (!type || !messageId) return;
+
+    const delivery = await this.deliveryModel.findById(messageId, { emailHash: 1, leadId: 1, reportId: 1 }).lean();
+    if (!delivery) return;
+
+    const parsed = new Date(event.created_at);
+    const at = isNaN(parsed.getTime()) ? new Date() : parsed;
+    const hardBounce = type === 'bounced' && event.data.bounce?.type === 'Permanent';
+    const detail = type === 'bounced' ? event.data.bounce?.message : event.data.click?.link?.split('?')[0];
+
+    if (type === 'opened' || type === 'clicked') {
+      await this.deliveryModel.updateOne(
+        { _id: messageId },
+        { $min: { [type === 'opened' ? 'openedAt' : 'clickedAt']: at } },
+      );
+    } else {
+      await this.advanceStatus(messageId, type, type === 'bounced' ? (hardBounce ? 'hard' : 'soft') : undefined);
+    }
+
+    if (hardBounce || type === 'complained') {
+      await this.suppression.suppress(delivery.emailHash, EMAIL_CATEGORIES, hardBounce ? 'bounced' : 'complained');
+      this.logger.log(`Suppressed lead ${delivery.leadId}'s address after a ${hardBounce ? 'hard bounce' : 'complaint'}`);
+    }
+
+    if (delivery.reportId) {
+      await this.updateReport(delivery.reportId, messageId, type, at);
+    }
+
+    // Recorded last; matching on the webhook id keeps a redelivered webhook from adding it twice
+    const entry: DeliveryEvent = { id: webhookId, type, at, detail };
+    await this.deliveryModel.updateOne(
+      { _id: messageId, 'events.id': { $ne: webhookId } },
+      { $push: { events: { $each: [entry], $slice: -MAX_EVENTS } } },
+    );
+  }
+
+  /** Move the message's status forward; a late `delivered` can't overwrite `bounced` */
+  private async advanceStatus(messageId: string, status: DeliveryStatus, bounceType?: BounceType): Promise<void> {
+    if (bounceType) await this.deliveryModel.updateOne({ _id: messageId }, { bounceType });
+    const lower = DELIVERY_STATUSES.filter((s) => DELIVERY_STATUS_RANK[s] < DELIVERY_STATUS_RANK[status]);
+    await this.deliveryModel.updateOne({ _id: messageId, status: { $in: lower } }, { status });
+  }
+
+  /** Opens and clicks count from any send of the report; its status follows only the latest send */
+  private async updateReport(reportId: string, messageId: string, type: DeliveryEventType, at: Date) {
+    if (type === 'opened' || type === 'clicked') {
+      const field = type === 'opened' ? 'emailOpenedAt' : 'emailClickedAt';
+      await this.reportModel.updateOne({ _id: reportId }, { $min: { [field]: at } });
+      return;
+    }
+    if (type === 'delayed') return;
+
+    const latest = await this.deliveryModel.findOne({ reportId }, { _id: 1 }).sort({ createdAt: -1 }).lean();
+    if (latest?._id !== messageId) return;
+
+    // `pending` too: the webhook can beat the send job to recording `sent`
+    const from: EmailStatus[] = type === 'delivered' ? ['pending', 'sent'] : ['pending', 'sent', 'delivered'];
+    await this.reportModel.updateOne({ _id: reportId, emailStatus: { $in: from } }, { emailStatus: type });
+  }
+}
@@ -0,0 +1,16 @@
+import { IsBoolean, IsOptional, IsString, MinLength } from 'class-validator';
+
+/** Opt in (`true`) or out (`false`) of each kind of email; omitted categories are left as they are */
+export class UpdateEmailPreferencesDto {
+  @IsString()
+  @MinLength(1)
+  token: string;
+
+  @IsOptional()
+  @IsBoolean()
+  report?: boolean;
+
+  @IsOptional()
+  @IsBoolean()
+  nurture?: boolean;
+}
@@ -0,0 +1,96 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { HydratedDocument } from 'mongoose';
+import { EMAIL_CATEGORIES } from './suppression.schema';
+import { EMAIL_TRANSPORTS, EmailTransportName } from './transports/email-transport';
+import type { EmailCategory } from '../common/types/email';
+
+export type EmailDeliveryDocument = HydratedDocument<EmailDelivery>;
+
+/** Where the message got to, as reported by the provider; `sent` until it reports anything */
+export type DeliveryStatus = 'sent' | 'delayed' | 'delivered' | 'bounced' | 'complained';
+
+export const DELIVERY_STATUSES: DeliveryStatus[] = ['sent', 'delayed', 'delivered', 'bounced', 'complained'];
+
+/** Events arrive in any order; a status only ever moves to a higher rank */
+export const DELIVERY_STATUS_RANK: Record<DeliveryStatus, number> = {
+  sent: 0,
+  delayed: 1,
+  delivered: 2,
+  bounced: 3,
+  complained: 3,
+};
+
+export type DeliveryEventType = 'delayed' | 'delivered' | 'bounced' | 'complained' | 'opened' | 'clicked';
+
+export const DELIVERY_EVENT_TYPES: DeliveryEventType[] = [
+  'delayed',
+  'delivered',
+  'bounced',
+  'complained',
+  'opened',
+  'clicked',
+];
+
+/** `hard`: the address doesn't exist or refuses mail for good; `soft`: a temporary failure */
+export type BounceType = 'hard' | 'soft';
+
+@Schema({ _id: false })
+export class DeliveryEvent {
+  /** The webhook's own id; a redelivered webhook is recognised by it and ignored */
+  @Prop({ required: true })
+  id: string;
+
+  @Prop({ type: String, required: true, enum: DELIVERY_EVENT_TYPES })
+  type: DeliveryEventType;
+
+  @Prop({ required: true })
+  at: Date;
+
+  /** The bounce message, or the link that was clicked (without its query string) */
+  @Prop()
+  detail?: string;
+}
+
+const DeliveryEventSchema = SchemaFactory.createForClass(DeliveryEvent);
+
+/** One email handed to the provider, and what happened to it afterwards */
+@Schema({ timestamps: true })
+export class EmailDelivery {
+  @Prop({ type: String, required: true })
+  _id: string; // the provider's message id
+
+  @Prop({ type: String, required: true, enum: EMAIL_TRANSPORTS })
+  transport: EmailTransportName;
+
+  @Prop({ type: String, required: true, enum: EMAIL_CATEGORIES })
+  category: EmailCategory;
+
+  @Prop({ required: true, index: true })
+  leadId: string;
+
+  /** Set for report emails */
+  @Prop({ index: true, sparse: true })
+  reportId?: string;
+
+  @Prop({ required: true })
+  emailHash: string;
+
+  @Prop({ type: String, enum: DELIVERY_STATUSES, default: 'sent' })
+  status: DeliveryStatus;
+
+  @Prop({ type: String, enum: ['hard', 'soft'] })
+  bounceType?: BounceType;
+
+  /** First open and first click; opens are only tracked when the provider's open tracking is on */
+  @Prop()
+  openedAt?: Date;
+
+  @Prop()
+  clickedAt?: Date;
+
+  /** Most recent events, oldest first */
+  @Prop({ type: [DeliveryEventSchema], default: [] })
+  events: DeliveryEvent[];
+}
+
+export const EmailDeliverySchema = SchemaFactory.createForClass(EmailDelivery);
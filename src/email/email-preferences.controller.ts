@@ -0,0 +1,66 @@
+import { Body, Controller, Get, HttpCode, Param, Patch, Post, Query, Res } from '@nestjs/common';
+import { Response } from 'express';
+import { EmailTemplateService } from './email-template.service';
+import { SuppressionService } from './suppression.service';
+import { EMAIL_CATEGORIES } from './suppression.schema';
+import type { EmailCategory } from '../common/types/email';
+import { UpdateEmailPreferencesDto } from './dto/update-email-preferences.dto';
+
+/** Public endpoints behind the links in our emails; access is by the signed token in each link */
+@Controller('email')
+export class EmailPreferencesController {
+  constructor(
+    private templates: EmailTemplateService,
+    private suppression: SuppressionService,
+  ) {}
+
+  /** Confirmation page; unsubscribing takes a POST so link scanners can't trigger it */
+  @Get('unsubscribe/:emailHash')
+  confirmUnsubscribe(
+    @Param('emailHash') emailHash: string,
+    @Query('token') token: string,
+    @Res() res: Response,
+  ) {
+    this.suppression.verifyAccess(emailHash, token);
+    res.type('html').send(
+      this.templates.renderUnsubscribePage({
+        confirmed: false,
+        actionUrl: `?token=${encodeURIComponent(token)}`,
+      }),
+    );
+  }
+
+  /** The confirmation form, and one-click unsubscribe from the List-Unsubscribe-Post header */
+  @Post('unsubscribe/:emailHash')
+  @HttpCode(200)
+  async unsubscribe(
+    @Param('emailHash') emailHash: string,
+    @Query('token') token: string,
+    @Res() res: Response,
+  ) {
+    this.suppression.verifyAccess(emailHash, token);
+    await this.suppression.suppress(emailHash, EMAIL_CATEGORIES, 'unsubscribed');
+    res.type('html').send(this.templates.renderUnsubscribePage({ confirmed: true, actionUrl: '' }));
+  }
+
+  @Get('preferences/:emailHash')
+  async preferences(@Param('emailHash') emailHash: string, @Query('token') token: string) {
+    this.suppression.verifyAccess(emailHash, token);
+    return this.preferencesView(await this.suppression.suppressedCategories(emailHash));
+  }
+
+  @Patch('preferences/:emailHash')
+  async updatePreferences(@Param('emailHash') emailHash: string, @Body() dto: UpdateEmailPreferencesDto) {
+    this.suppression.verifyAccess(emailHash, dto.token);
+    const optedOut = EMAIL_CATEGORIES.filter((category) => dto[category] === false);
+    const optedIn = EMAIL_CATEGORIES.filter((category) => dto[category] === true);
+    if (optedOut.length) await this.suppression.suppress(emailHash, optedOut, 'preferences');
+    if (optedIn.length) await this.suppression.allow(emailHash, optedIn, 'preferences');
+    return this.preferencesView(await this.suppression.suppressedCategories(emailHash));
+  }
+
+  /** `true` for each category the address still receives */
+  private preferencesView(suppressed: EmailCategory[]) {
+    return Object.fromEntries(EMAIL_CATEGORIES.map((category) => [category, !suppressed.includes(category)]));
+  }
+}
@@ -0,0 +1,119 @@
+import { Injectable, OnModuleInit } from '@nestjs/common';
+import Handlebars from 'handlebars';
+import { existsSync, readdirSync, readFileSync } from 'fs';
+import { join } from 'path';
+import { emailTemplates, emailTemplateSelection } from '../common/config/email-templates';
+import type { EmailCategory } from '../common/types/email';
+import type { TierKey } from '../common/types/scoring';
+
+const TEMPLATE_DIR = join(__dirname, 'templates');
+
+/** A rendered email: subject line, HTML body and its plain-text alternative */
+export interface RenderedEmail {
+  subject: string;
+  html: string;
+  text: string;
+}
+
+type Compiled = Handlebars.TemplateDelegate;
+
+/**
+ * Renders the emails in `templates/` with Handlebars. HTML templates are escaped automatically;
+ * plain-text templates, subjects and preheaders are not. Which template an email uses is chosen
+ * from `emailTemplateSelection` by its type and the lead's tier.
+ */
+@Injectable()
+export class EmailTemplateService implements OnModuleInit {
+  private readonly html = Handlebars.create();
+  private readonly text = Handlebars.create();
+  private readonly compiled = new Map<string, Compiled>();
+
+  onModuleInit(): void {
+    for (const engine of [this.html, this.text]) {
+      // "01", "02", … for an {{#each}} index
+      engine.registerHelper('stepNumber', (index: number) => String(index + 1).padStart(2, '0'));
+    }
+    this.registerPartials();
+
+    const errors: string[] = [];
+    const compile = (key: string, engine: typeof Handlebars, source: string) => {
+      try {
+        engine.precompile(source); // parses now; compile() would defer syntax errors to the first send
+        this.compiled.set(key, engine.compile(source, { noEscape: engine === this.text }));
+      } catch (err) {
+        errors.push(`${key}: ${(err as Error).message}`);
+      }
+    };
+    const compileFile = (key: string, engine: typeof Handlebars, file: string) => {
+      const path = join(TEMPLATE_DIR, file);
+      if (!existsSync(path)) {
+        errors.push(`${key}: missing ${file}`);
+        return;
+      }
+      compile(key, engine, readFileSync(path, 'utf-8'));
+    };
+
+    const layouts = new Set(Object.values(emailTemplates).map((definition) => definition.layout));
+    for (const layout of layouts) {
+      compileFile(`layout:${layout}:html`, this.html, `layouts/${layout}.html.hbs`);
+      compileFile(`layout:${layout}:text`, this.text, `layouts/${layout}.txt.hbs`);
+    }
+    for (const [name, definition] of Object.entries(emailTemplates)) {
+      compileFile(`${name}:html`, this.html, `${name}.html.hbs`);
+      compileFile(`${name}:text`, this.text, `${name}.txt.hbs`);
+      compile(`${name}:subject`, this.text, definition.subject);
+      compile(`${name}:preheader`, this.text, definition.preheader);
+    }
+    compileFile('page:unsubscribe', this.html, 'unsubscribe-page.html.hbs');
+
+    for (const [category, selection] of Object.entries(emailTemplateSelection)) {
+      for (const name of [selection.default, ...Object.values(selection.tiers ?? {})]) {
+        if (!emailTemplates[name]) errors.push(`${category} selects unknown template ${name}`);
+      }
+    }
+
+    if (errors.length) {
+      throw new Error(`Invalid email templates: ${errors.join('; ')}`);
+    }
+  }
+
+  /** Render the template selected for this type of email and tier */
+  render(category: EmailCategory, tier: TierKey | undefined, data: Record<string, unknown>): RenderedEmail {
+    const selection = emailTemplateSelection[category];
+    const name = (tier && selection.tiers?.[tier]) || selection.default;
+    const { layout } = emailTemplates[name];
+
+    // Strip newlines/control chars from the subject to prevent header injection
+    const subject = this.run(`${name}:subject`, data).replace(/[\r\n\t]/g, ' ').trim();
+    const preheader = this.run(`${name}:preheader`, data);
+    const wrap = (part: 'html' | 'text') =>
+      this.run(`layout:${layout}:${part}`, {
+        ...data,
+        subject,
+        preheader,
+        body: this.run(`${name}:${part}`, data),
+      });
+
+    return { subject, html: wrap('html'), text: wrap('text') };
+  }
+
+  /** The page behind an email's unsubscribe link */
+  renderUnsubscribePage(data: { confirmed: boolean; actionUrl: string }): string {
+    return this.run('page:unsubscribe', data);
+  }
+
+  private run(key: string, data: object): string {
+    return this.compiled.get(key)!(data);
+  }
+
+  /** Every `partials/<name>.html.hbs` becomes `{{> name}}` in HTML templates */
+  private registerPartials(): void {
+    const dir = join(TEMPLATE_DIR, 'partials');
+    for (const file of readdirSync(dir)) {
+      const match = /^(.+)\.html\.hbs$/.exec(file);
+      if (match) {
+        this.html.registerPartial(match[1], readFileSync(join(dir, file), 'utf-8'));
+      }
+    }
+  }
+}
@@ -1,8 +1,33 @@
 import { Module } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { MongooseModule } from '@nestjs/mongoose';
 import { EmailService } from './email.service';
+import { EmailTemplateService } from './email-template.service';
+import { SuppressionService } from './suppression.service';
+import { Suppression, SuppressionSchema } from './suppression.schema';
+import { EmailDelivery, EmailDeliverySchema } from './email-delivery.schema';
+import { EmailPreferencesController } from './email-preferences.controller';
+import { EMAIL_TRANSPORT } from './transports/email-transport';
+import { createEmailTransport } from './transports/email-transport.factory';
 
 @Module({
-  providers: [EmailService],
-  exports: [EmailService],
+  imports: [
+    MongooseModule.forFeature([
+      { name: Suppression.name, schema: SuppressionSchema },
+      { name: EmailDelivery.name, schema: EmailDeliverySchema },
+    ]),
+  ],
+  controllers: [EmailPreferencesController],
+  providers: [
+    EmailService,
+    EmailTemplateService,
+    SuppressionService,
+    {
+      provide: EMAIL_TRANSPORT,
+      inject: [ConfigService],
+      useFactory: createEmailTransport,
+    },
+  ],
+  exports: [EmailService, SuppressionService, MongooseModule],
 })
 export class EmailModule {}
@@ -1,31 +1,38 @@
-import { Injectable, Logger } from '@nestjs/common';
+import { Inject, Injectable, Logger } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
-import { readFileSync } from 'fs';
-import { join } from 'path';
-import { Resend } from 'resend';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model } from 'mongoose';
+import { EMAIL_TRANSPORT, EmailAttachment, EmailTransport } from './transports/email-transport';
+import { EmailTemplateService } from './email-template.service';
+import { SuppressionService } from './suppression.service';
+import { EmailDelivery, EmailDeliveryDocument } from './email-delivery.schema';
+import { EncryptionService } from '../common/encryption/encryption.service';
+import type { EmailCategory } from '../common/types/email';
+import type { TierData, TierKey } from '../common/types/scoring';
+
+/** `suppressed`: the address opted out of this category, so nothing was sent */
+export type EmailSendResult = 'sent' | 'suppressed' | 'failed';
+
+/** What a message is about, so delivery events reported for it can be traced back */
+interface DeliveryContext {
+  leadId: string;
+  reportId?: string;
+}
 
 @Injectable()
 export class EmailService {
-  private readonly resend: Resend;
   private readonly logger = new Logger(EmailService.name);
-  private readonly template: string;
-
-  constructor(private readonly config: ConfigService) {
-    this.resend = new Resend(this.config.getOrThrow<string>('RESEND_API_KEY'));
-    this.template = readFileSync(
-      join(__dirname, 'templates', 'report-email.html'),
-      'utf-8',
-    );
-  }
+  private readonly from: string;
 
-  /** HTML-escape a string to prevent injection in email templates */
-  private escapeHtml(str: string): string {
-    return str
-      .replace(/&/g, '&amp;')
-      .replace(/</g, '&lt;')
-      .replace(/>/g, '&gt;')
-      .replace(/"/g, '&quot;')
-      .replace(/'/g, '&#39;');
+  constructor(
+    private readonly config: ConfigService,
+    @Inject(EMAIL_TRANSPORT) private readonly transport: EmailTransport,
+    @InjectModel(EmailDelivery.name) private readonly deliveryModel: Model<EmailDeliveryDocument>,
+    private readonly templates: EmailTemplateService,
+    private readonly suppression: SuppressionService,
+    private readonly encryption: EncryptionService,
+  ) {
+    this.from = this.config.get<string>('EMAIL_FROM', 'noreply@send.localmarketingaudit.com');
   }
 
   /** Mask an email address for safe logging (e.g. j***@example.com) */
@@ -35,53 +42,96 @@ export class EmailService {
     return `${local[0]}***@${domain}`;
   }
 
-  /** Build the report email HTML by replacing template variables */
-  private buildReportEmailHtml(params: {
-    fullName: string;
-    viewReportUrl: string;
-    bookSessionUrl: string;
-  }): string {
-    return this.template
-      .replace(/\{\{fullName\}\}/g, this.escapeHtml(params.fullName))
-      .replace(/\{\{viewReportUrl\}\}/g, params.viewReportUrl)
-      .replace(/\{\{bookSessionUrl\}\}/g, params.bookSessionUrl);
-  }
-
   async sendReportEmail(params: {
     toEmail: string;
+    leadId: string;
+    reportId: string;
     businessName: string;
     fullName: string;
+    /** Industry-specific opening paragraph */
+    intro: string;
+    /** Pillar names to highlight, weakest first */
+    focusAreas: string[];
+    score: number;
+    tier: TierData;
+    /** Every pillar's score, weakest first; `score` is null when all its questions were skipped */
+    pillars: { name: string; score: number | null; max: number }[];
     viewReportUrl: string;
     bookSessionUrl: string;
     pdfBuffer: Buffer;
-  }): Promise<boolean> {
-    // Strip newlines/control chars from subject to prevent header injection
-    const safeSubject = params.businessName.replace(/[\r\n\t]/g, ' ').trim();
+  }): Promise<EmailSendResult> {
+    const { toEmail, leadId, reportId, pdfBuffer, ...data } = params;
+    return this.deliver('report', params.tier.key, toEmail, { leadId, reportId }, data, [
+      {
+        filename: 'dominance-scorecard-report.pdf',
+        content: pdfBuffer,
+        contentType: 'application/pdf',
+      },
+    ]);
+  }
+
+  /** One step of a nurture sequence: copy, an optional numbered list and a single CTA */
+  async sendNurtureEmail(params: {
+    toEmail: string;
+    leadId: string;
+    fullName: string;
+    tier: TierKey;
+    subject: string;
+    heading: string;
+    intro: string;
+    items: { title: string; detail: string }[];
+    cta: { label: string; subtext?: string; url: string };
+  }): Promise<EmailSendResult> {
+    const { toEmail, leadId, ...data } = params;
+    return this.deliver('nurture', params.tier, toEmail, { leadId }, data);
+  }
 
-    const html = this.buildReportEmailHtml({
-      fullName: params.fullName,
-      viewReportUrl: params.viewReportUrl,
-      bookSessionUrl: params.bookSessionUrl,
-    });
+  /**
+   * Check the suppression list, render the template selected for this email and tier, and hand the
+   * message to the transport. Every message carries the recipient's unsubscribe link, in the footer
+   * and as a one-click List-Unsubscribe header. Sent messages are recorded by the provider's id so
+   * its delivery webhooks can update them.
+   */
+  private async deliver(
+    category: EmailCategory,
+    tier: TierKey,
+    to: string,
+    context: DeliveryContext,
+    data: Record<string, unknown>,
+    attachments: EmailAttachment[] = [],
+  ): Promise<EmailSendResult> {
+    const emailHash = this.encryption.hashForDedup(to);
+    if (await this.suppression.isSuppressed(emailHash, category)) {
+      this.logger.log(`Skipped ${category} email to ${this.maskEmail(to)}: address is suppressed`);
+      return 'suppressed';
+    }
 
+    const unsubscribeUrl = this.suppression.unsubscribeUrl(emailHash);
+    let messageId: string;
     try {
-      await this.resend.emails.send({
-        from: 'noreply@send.localmarketingaudit.com',
-        to: params.toEmail,
-        subject: `Your Local Marketing Dominance Scorecard — ${safeSubject}`,
+      const { subject, html, text } = this.templates.render(category, tier, { ...data, unsubscribeUrl });
+      messageId = await this.transport.send({
+        from: this.from,
+        to,
+        subject,
         html,
-        attachments: [
-          {
-            filename: 'dominance-scorecard-report.pdf',
-            content: params.pdfBuffer,
-          },
-        ],
+        text,
+        attachments,
+        headers: {
+          'List-Unsubscribe': `<${unsubscribeUrl}>`,
+          'List-Unsubscribe-Post': 'List-Unsubscribe=One-Click',
+        },
       });
-      this.logger.log(`Report email sent to ${this.maskEmail(params.toEmail)}`);
-      return true;
+      this.logger.log(`${category} email sent to ${this.maskEmail(to)} via ${this.transport.name}`);
     } catch (err) {
-      this.logger.error('Failed to send report email', err);
-      return false;
+      this.logger.error(`Failed to send ${category} email`, err);
+      return 'failed';
     }
+
+    // The message is already out; failing here would make the caller send it again
+    await this.deliveryModel
+      .create({ _id: messageId, transport: this.transport.name, category, emailHash, ...context })
+      .catch((err) => this.logger.error(`Could not record ${category} email ${messageId}`, err));
+    return 'sent';
   }
 }
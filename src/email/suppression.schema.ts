@@ -0,0 +1,33 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { HydratedDocument } from 'mongoose';
+import type { EmailCategory } from '../common/types/email';
+
+export type SuppressionDocument = HydratedDocument<Suppression>;
+
+export const EMAIL_CATEGORIES: EmailCategory[] = ['report', 'nurture'];
+
+/** Who or what last changed the entry; `bounced` and `complained` come from the provider's webhooks */
+export type SuppressionReason = 'unsubscribed' | 'preferences' | 'admin' | 'bounced' | 'complained';
+
+export const SUPPRESSION_REASONS: SuppressionReason[] = [
+  'unsubscribed',
+  'preferences',
+  'admin',
+  'bounced',
+  'complained',
+];
+
+/** An address that must not be sent the listed categories of email */
+@Schema({ timestamps: true })
+export class Suppression {
+  @Prop({ type: String, required: true })
+  _id: string; // emailHash, the same SHA-256 as Lead.emailHash
+
+  @Prop({ type: [String], enum: EMAIL_CATEGORIES, default: [] })
+  categories: EmailCategory[];
+
+  @Prop({ type: String, required: true, enum: SUPPRESSION_REASONS })
+  reason: SuppressionReason;
+}
+
+export const SuppressionSchema = SchemaFactory.createForClass(Suppression);
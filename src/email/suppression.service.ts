@@ -0,0 +1,64 @@
+import { ForbiddenException, Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model } from 'mongoose';
+import { Suppression, SuppressionDocument, SuppressionReason } from './suppression.schema';
+import type { EmailCategory } from '../common/types/email';
+import { EncryptionService } from '../common/encryption/encryption.service';
+
+/**
+ * The suppression list: addresses, by email hash, that opted out of some or all email or that hard
+ * bounced or complained. Every send goes through EmailService, which checks it first. Entries are
+ * never lifted automatically, only by the recipient through their preferences.
+ */
+@Injectable()
+export class SuppressionService {
+  constructor(
+    @InjectModel(Suppression.name) private suppressionModel: Model<SuppressionDocument>,
+    private encryption: EncryptionService,
+    private config: ConfigService,
+  ) {}
+
+  async suppressedCategories(emailHash: string): Promise<EmailCategory[]> {
+    const entry = await this.suppressionModel.findById(emailHash, { categories: 1 }).lean();
+    return entry?.categories ?? [];
+  }
+
+  async isSuppressed(emailHash: string, category: EmailCategory): Promise<boolean> {
+    return !!(await this.suppressionModel.exists({ _id: emailHash, categories: category }));
+  }
+
+  async suppress(emailHash: string, categories: EmailCategory[], reason: SuppressionReason): Promise<void> {
+    await this.suppressionModel.updateOne(
+      { _id: emailHash },
+      { $addToSet: { categories: { $each: categories } }, $set: { reason } },
+      { upsert: true },
+    );
+  }
+
+  /** Opt back in to the given categories; the entry is removed once nothing is suppressed */
+  async allow(emailHash: string, categories: EmailCategory[], reason: SuppressionReason): Promise<void> {
+    await this.suppressionModel.updateOne(
+      { _id: emailHash },
+      { $pullAll: { categories }, $set: { reason } },
+    );
+    await this.suppressionModel.deleteOne({ _id: emailHash, categories: { $size: 0 } });
+  }
+
+  /** Signed token for a recipient's unsubscribe link and preferences; scoped so it can't open a report */
+  signToken(emailHash: string): string {
+    return this.encryption.signToken(`email:${emailHash}`);
+  }
+
+  verifyAccess(emailHash: string, token: string): void {
+    if (!token || !this.encryption.verifyToken(`email:${emailHash}`, token)) {
+      throw new ForbiddenException('Invalid or missing access token');
+    }
+  }
+
+  /** One-click unsubscribe URL for the email footer and the List-Unsubscribe header */
+  unsubscribeUrl(emailHash: string): string {
+    const appUrl = this.config.get<string>('APP_URL', 'https://localmarketingaudit.com');
+    return `${appUrl}/api/email/unsubscribe/${emailHash}?token=${encodeURIComponent(this.signToken(emailHash))}`;
+  }
+}
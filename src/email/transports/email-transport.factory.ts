@@ -0,0 +1,46 @@
+import { Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { EMAIL_TRANSPORTS, EmailTransport, EmailTransportName } from './email-transport';
+import { ResendTransport } from './resend.transport';
+import { SmtpTransport } from './smtp.transport';
+import { OutboxTransport } from './outbox.transport';
+
+/**
+ * Pick the transport from EMAIL_TRANSPORT. Without it, Resend is used when RESEND_API_KEY is set
+ * and the outbox otherwise — except in production, where a missing provider is a boot error.
+ */
+export function createEmailTransport(config: ConfigService): EmailTransport {
+  const configured = config.get<string>('EMAIL_TRANSPORT');
+  if (configured && !EMAIL_TRANSPORTS.includes(configured as EmailTransportName)) {
+    throw new Error(`EMAIL_TRANSPORT must be one of: ${EMAIL_TRANSPORTS.join(', ')}`);
+  }
+
+  let name = configured as EmailTransportName | undefined;
+  if (!name) {
+    if (config.get<string>('RESEND_API_KEY')) {
+      name = 'resend';
+    } else if (config.get<string>('NODE_ENV') === 'production') {
+      throw new Error('Set RESEND_API_KEY or EMAIL_TRANSPORT in production');
+    } else {
+      name = 'outbox';
+    }
+  }
+
+  switch (name) {
+    case 'resend':
+      return new ResendTransport(config.getOrThrow<string>('RESEND_API_KEY'));
+    case 'smtp':
+      return new SmtpTransport({
+        host: config.getOrThrow<string>('SMTP_HOST'),
+        port: Number(config.get('SMTP_PORT', 587)),
+        secure: config.get<string>('SMTP_SECURE', 'false') === 'true',
+        user: config.get<string>('SMTP_USER'),
+        pass: config.get<string>('SMTP_PASS'),
+      });
+    case 'outbox': {
+      const dir = config.get<string>('EMAIL_OUTBOX_DIR') || undefined;
+      new Logger('EmailTransport').warn(`Emails are not delivered: using the outbox${dir ? ` in ${dir}` : ''}`);
+      return new OutboxTransport(dir);
+    }
+  }
+}
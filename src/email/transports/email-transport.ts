@@ -0,0 +1,32 @@
+/** Injection token for the configured EmailTransport */
+export const EMAIL_TRANSPORT = Symbol('EMAIL_TRANSPORT');
+
+export type EmailTransportName = 'resend' | 'smtp' | 'outbox';
+
+export const EMAIL_TRANSPORTS: EmailTransportName[] = ['resend', 'smtp', 'outbox'];
+
+export interface EmailAttachment {
+  filename: string;
+  content: Buffer;
+  contentType?: string;
+}
+
+/** A fully built message, ready to hand to a provider */
+export interface EmailMessage {
+  from: string;
+  to: string;
+  subject: string;
+  html: string;
+  /** Plain-text alternative of the HTML */
+  text: string;
+  attachments: EmailAttachment[];
+  /** Extra headers, e.g. List-Unsubscribe */
+  headers?: Record<string, string>;
+}
+
+/** Delivers built messages; implementations throw when the provider rejects a message */
+export interface EmailTransport {
+  readonly name: EmailTransportName;
+  /** Resolves to the provider's id for the message, which its delivery webhooks refer to */
+  send(message: EmailMessage): Promise<string>;
+}
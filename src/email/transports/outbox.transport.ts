@@ -0,0 +1,49 @@
+import { Logger } from '@nestjs/common';
+import { mkdir, writeFile } from 'fs/promises';
+import { join } from 'path';
+import { createTransport, Transporter } from 'nodemailer';
+import type { EmailMessage, EmailTransport } from './email-transport';
+
+/** Messages kept in memory for inspection; older ones are dropped */
+const OUTBOX_MEMORY_LIMIT = 50;
+
+/**
+ * Delivers nothing. Each message is rendered to the exact MIME source a real provider would
+ * receive, kept in memory and, when a directory is configured, written there as an `.eml` file
+ * that any mail client can open.
+ */
+export class OutboxTransport implements EmailTransport {
+  readonly name = 'outbox';
+  private readonly logger = new Logger(OutboxTransport.name);
+  private readonly composer: Transporter;
+  private readonly sent: { message: EmailMessage; raw: Buffer; sentAt: Date }[] = [];
+
+  constructor(private readonly dir?: string) {
+    this.composer = createTransport({ streamTransport: true, buffer: true, newline: 'unix' });
+  }
+
+  /** Messages "sent" by this process, newest last */
+  get messages(): readonly { message: EmailMessage; raw: Buffer; sentAt: Date }[] {
+    return this.sent;
+  }
+
+  async send(message: EmailMessage): Promise<string> {
+    const info = await this.composer.sendMail(message);
+    const raw = info.message as Buffer;
+    const sentAt = new Date();
+
+    this.sent.push({ message, raw, sentAt });
+    if (this.sent.length > OUTBOX_MEMORY_LIMIT) this.sent.shift();
+
+    if (this.dir) {
+      await mkdir(this.dir, { recursive: true });
+      const id = info.messageId.replace(/^<|@.*$/g, '');
+      const file = join(this.dir, `${sentAt.toISOString().replace(/[:.]/g, '-')}-${id}.eml`);
+      await writeFile(file, raw);
+      this.logger.log(`Outbox: wrote ${file}`);
+    } else {
+      this.logger.log(`Outbox: kept "${message.subject}" in memory`);
+    }
+    return info.messageId;
+  }
+}
@@ -0,0 +1,33 @@
+import { Resend } from 'resend';
+import type { EmailMessage, EmailTransport } from './email-transport';
+
+/** Sends through the Resend HTTP API */
+export class ResendTransport implements EmailTransport {
+  readonly name = 'resend';
+  private readonly resend: Resend;
+
+  constructor(apiKey: string) {
+    this.resend = new Resend(apiKey);
+  }
+
+  async send(message: EmailMessage): Promise<string> {
+    // The SDK reports API errors in the response rather than throwing
+    const { data, error } = await this.resend.emails.send({
+      from: message.from,
+      to: message.to,
+      subject: message.subject,
+      html: message.html,
+      text: message.text,
+      headers: message.headers,
+      attachments: message.attachments.map((attachment) => ({
+        filename: attachment.filename,
+        content: attachment.content,
+        contentType: attachment.contentType,
+      })),
+    });
+    if (error) {
+      throw new Error(`Resend rejected the message: ${error.message}`);
+    }
+    return data!.id;
+  }
+}
@@ -0,0 +1,31 @@
+import { createTransport, Transporter } from 'nodemailer';
+import type { EmailMessage, EmailTransport } from './email-transport';
+
+export interface SmtpOptions {
+  host: string;
+  port: number;
+  /** Implicit TLS (usually port 465); otherwise STARTTLS is used when the server offers it */
+  secure: boolean;
+  user?: string;
+  pass?: string;
+}
+
+/** Sends through any SMTP server, e.g. a provider relay or a local catcher like Mailpit */
+export class SmtpTransport implements EmailTransport {
+  readonly name = 'smtp';
+  private readonly transporter: Transporter;
+
+  constructor(options: SmtpOptions) {
+    this.transporter = createTransport({
+      host: options.host,
+      port: options.port,
+      secure: options.secure,
+      auth: options.user ? { user: options.user, pass: options.pass } : undefined,
+    });
+  }
+
+  async send(message: EmailMessage): Promise<string> {
+    const info = await this.transporter.sendMail(message);
+    return info.messageId;
+  }
+}
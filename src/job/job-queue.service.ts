@@ -0,0 +1,267 @@
+import {
+  Injectable,
+  Logger,
+  NotFoundException,
+  ConflictException,
+  ForbiddenException,
+  OnApplicationBootstrap,
+  OnApplicationShutdown,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model } from 'mongoose';
+import { hostname } from 'os';
+import { Job, JobDocument, JobStatus, JobType } from './job.schema';
+import { IdService } from '../common/id/id.service';
+import { EncryptionService } from '../common/encryption/encryption.service';
+import { isDuplicateKeyError } from '../common/mongo/query-helpers';
+
+/** Work for one job type, registered by the module that owns it */
+export interface JobHandler<P = Record<string, unknown>> {
+  /** Do the work; throwing schedules a retry with backoff until the job runs out of attempts */
+  run(payload: P, job: JobDocument): Promise<Record<string, unknown> | void>;
+  /** Called once when the job moves to `dead` */
+  onDead?(payload: P, error: string): Promise<void>;
+}
+
+export interface EnqueueOptions {
+  /** Enqueueing with a key that is already taken returns the existing job */
+  idempotencyKey?: string;
+  maxAttempts?: number;
+  /** Earliest time the job may run (default now) */
+  runAt?: Date;
+}
+
+/** What a client polling a job sees */
+export interface JobStatusView {
+  jobId: string;
+  type: JobType;
+  status: JobStatus;
+  attempts: number;
+  maxAttempts: number;
+  result: Record<string, unknown> | null;
+  createdAt: Date;
+  completedAt: Date | null;
+}
+
+/**
+ * MongoDB-backed job queue. Every instance runs a worker that polls for due jobs of the types it
+ * has handlers for and locks each one by atomically moving it to `running`. Failed attempts are
+ * retried with exponential backoff; after JOB_MAX_ATTEMPTS the job is dead-lettered.
+ */
+@Injectable()
+export class JobQueueService implements OnApplicationBootstrap, OnApplicationShutdown {
+  private readonly logger = new Logger(JobQueueService.name);
+  private readonly handlers = new Map<JobType, JobHandler<unknown>>();
+  private readonly running = new Set<Promise<void>>();
+  private readonly workerId = `${hostname()}:${process.pid}`;
+  private readonly pollIntervalMs: number;
+  private readonly concurrency: number;
+  private readonly maxAttempts: number;
+  private readonly backoffBaseMs: number;
+  private readonly lockTimeoutMs: number;
+  private timer?: NodeJS.Timeout;
+  private stopped = false;
+
+  constructor(
+    @InjectModel(Job.name) private jobModel: Model<JobDocument>,
+    private id: IdService,
+    private encryption: EncryptionService,
+    private config: ConfigService,
+  ) {
+    this.pollIntervalMs = this.positiveInteger('JOB_POLL_INTERVAL_MS', 1000);
+    this.concurrency = this.positiveInteger('JOB_CONCURRENCY', 2);
+    this.maxAttempts = this.positiveInteger('JOB_MAX_ATTEMPTS', 5);
+    this.backoffBaseMs = this.positiveInteger('JOB_BACKOFF_BASE_SECONDS', 10) * 1000;
+    this.lockTimeoutMs = this.positiveInteger('JOB_LOCK_TIMEOUT_SECONDS', 300) * 1000;
+  }
+
+  onApplicationBootstrap(): void {
+    if (this.config.get<string>('JOB_WORKER_ENABLED', 'true') === 'false') {
+      this.logger.log('Job worker disabled on this instance');
+      return;
+    }
+    this.schedule();
+  }
+
+  /** Stop polling and let running jobs finish */
+  async onApplicationShutdown(): Promise<void> {
+    this.stopped = true;
+    clearTimeout(this.timer);
+    await Promise.allSettled(this.running);
+  }
+
+  register<P>(type: JobType, handler: JobHandler<P>): void {
+    if (this.handlers.has(type)) {
+      throw new Error(`A handler for ${type} jobs is already registered`);
+    }
+    // Jobs reach a handler only by their type, so the payload is the one it was registered for
+    this.handlers.set(type, handler as JobHandler<unknown>);
+  }
+
+  async enqueue(type: JobType, payload: Record<string, unknown>, options: EnqueueOptions = {}): Promise<JobDocument> {
+    try {
+      return await this.jobModel.create({
+        _id: this.id.generateId(),
+        type,
+        payload,
+        idempotencyKey: options.idempotencyKey,
+        maxAttempts: options.maxAttempts ?? this.maxAttempts,
+        runAt: options.runAt ?? new Date(),
+      });
+    } catch (err) {
+      if (!options.idempotencyKey || !isDuplicateKeyError(err)) throw err;
+      const existing = await this.jobModel.findOne({ idempotencyKey: options.idempotencyKey });
+      if (!existing) throw err;
+      return existing;
+    }
+  }
+
+  /** Signed token that lets a client poll one job; scoped so it can't be used as a report token */
+  signToken(jobId: string): string {
+    return this.encryption.signToken(`job:${jobId}`);
+  }
+
+  verifyAccess(jobId: string, token: string): void {
+    if (!token || !this.encryption.verifyToken(`job:${jobId}`, token)) {
+      throw new ForbiddenException('Invalid or missing access token');
+    }
+  }
+
+  async status(jobId: string): Promise<JobStatusView> {
+    const job = await this.jobModel.findById(jobId).lean<Job & { createdAt: Date }>();
+    if (!job) {
+      throw new NotFoundException('Job not found');
+    }
+    return {
+      jobId: job._id,
+      type: job.type,
+      status: job.status,
+      attempts: job.attempts,
+      maxAttempts: job.maxAttempts,
+      result: job.result ?? null,
+      createdAt: job.createdAt,
+      completedAt: job.completedAt ?? null,
+    };
+  }
+
+  /** Move a dead job back to the queue with a fresh set of attempts, clearing the error that killed it */
+  async retry(jobId: string): Promise<JobDocument> {
+    const job = await this.jobModel.findOneAndUpdate(
+      { _id: jobId, status: 'dead' },
+      { $set: { status: 'queued', attempts: 0, runAt: new Date() }, $unset: { lastError: 1 } },
+      { new: true },
+    );
+    if (!job) {
+      if (await this.jobModel.exists({ _id: jobId })) {
+        throw new ConflictException('Only dead jobs can be retried');
+      }
+      throw new NotFoundException('Job not found');
+    }
+    return job;
+  }
+
+  private schedule(): void {
+    this.timer = setTimeout(() => this.poll(), this.pollIntervalMs);
+  }
+
+  /** Start due jobs until every worker slot is busy, then wait for the next poll */
+  private async poll(): Promise<void> {
+    try {
+      while (!this.stopped && this.running.size < this.concurrency) {
+        const job = await this.claimNext();
+        if (!job) break;
+
+        const run = this.execute(job).finally(() => this.running.delete(run));
+        this.running.add(run);
+      }
+    } catch (err) {
+      this.logger.error('Job poll failed', err);
+    } finally {
+      if (!this.stopped) this.schedule();
+    }
+  }
+
+  /** Lock the oldest due job, or one whose worker stopped holding its lock */
+  private claimNext(): Promise<JobDocument | null> {
+    if (!this.handlers.size) return Promise.resolve(null);
+
+    const now = new Date();
+    return this.jobModel.findOneAndUpdate(
+      {
+        type: { $in: [...this.handlers.keys()] },
+        $or: [
+          { status: 'queued', runAt: { $lte: now } },
+          { status: 'running', lockedAt: { $lt: new Date(now.getTime() - this.lockTimeoutMs) } },
+        ],
+      },
+      {
+        $set: { status: 'running', lockedAt: now, lockedBy: this.workerId },
+        $inc: { attempts: 1 },
+      },
+      { sort: { runAt: 1 }, new: true },
+    );
+  }
+
+  private async execute(job: JobDocument): Promise<void> {
+    const handler = this.handlers.get(job.type)!;
+    // Only this attempt's lock may record the outcome; a job taken over after a timeout belongs to the new worker
+    const lock = { _id: job._id, lockedAt: job.lockedAt };
+
+    // A worker died mid-attempt on the last try
+    if (job.attempts > job.maxAttempts) {
+      await this.deadLetter(job, handler, job.lastError ?? 'Worker stopped before the job finished', lock);
+      return;
+    }
+
+    try {
+      const result = await handler.run(job.payload, job);
+      await this.jobModel.updateOne(lock, {
+        $set: { status: 'completed', result: result ?? {}, completedAt: new Date() },
+        $unset: { lockedAt: 1, lockedBy: 1, lastError: 1 },
+      });
+    } catch (err) {
+      const message = err instanceof Error ? err.message : String(err);
+      if (job.attempts >= job.maxAttempts) {
+        this.logger.error(`Job ${job._id} (${job.type}) failed on its last attempt`, err);
+        await this.deadLetter(job, handler, message, lock);
+        return;
+      }
+
+      const delayMs = this.backoffBaseMs * 2 ** (job.attempts - 1);
+      this.logger.warn(`Job ${job._id} (${job.type}) attempt ${job.attempts} failed, retrying in ${delayMs / 1000}s: ${message}`);
+      await this.jobModel
+        .updateOne(lock, {
+          $set: { status: 'queued', runAt: new Date(Date.now() + delayMs), lastError: message },
+          $unset: { lockedAt: 1, lockedBy: 1 },
+        })
+        .catch((updateErr) => this.logger.error(`Could not reschedule job ${job._id}`, updateErr));
+    }
+  }
+
+  private async deadLetter(
+    job: JobDocument,
+    handler: JobHandler<unknown>,
+    error: string,
+    lock: { _id: string; lockedAt?: Date },
+  ): Promise<void> {
+    try {
+      await this.jobModel.updateOne(lock, {
+        $set: { status: 'dead', lastError: error },
+        $unset: { lockedAt: 1, lockedBy: 1 },
+      });
+      await handler.onDead?.(job.payload, error);
+    } catch (err) {
+      this.logger.error(`Could not dead-letter job ${job._id}`, err);
+    }
+  }
+
+  /** A typo would otherwise give NaN, and a concurrency of 0 would silently stop every job */
+  private positiveInteger(key: string, fallback: number): number {
+    const value = Number(this.config.get(key, fallback));
+    if (!Number.isInteger(value) || value < 1) {
+      throw new Error(`${key} must be a positive integer`);
+    }
+    return value;
+  }
+}
@@ -0,0 +1,13 @@
+import { Controller, Get, Param, Query } from '@nestjs/common';
+import { JobQueueService } from './job-queue.service';
+
+@Controller('jobs')
+export class JobController {
+  constructor(private jobQueue: JobQueueService) {}
+
+  @Get(':jobId')
+  async status(@Param('jobId') jobId: string, @Query('token') token: string) {
+    this.jobQueue.verifyAccess(jobId, token);
+    return this.jobQueue.status(jobId);
+  }
+}
@@ -0,0 +1,13 @@
+import { Module } from '@nestjs/common';
+import { MongooseModule } from '@nestjs/mongoose';
+import { Job, JobSchema } from './job.schema';
+import { JobController } from './job.controller';
+import { JobQueueService } from './job-queue.service';
+
+@Module({
+  imports: [MongooseModule.forFeature([{ name: Job.name, schema: JobSchema }])],
+  controllers: [JobController],
+  providers: [JobQueueService],
+  exports: [JobQueueService, MongooseModule],
+})
+export class JobModule {}
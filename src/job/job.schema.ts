@@ -0,0 +1,68 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { HydratedDocument } from 'mongoose';
+
+export type JobDocument = HydratedDocument<Job>;
+
+export type JobType = 'generate_report' | 'send_report_email' | 'send_nurture_email' | 'deliver_webhook';
+
+export const JOB_TYPES: JobType[] = ['generate_report', 'send_report_email', 'send_nurture_email', 'deliver_webhook'];
+
+/** `dead` is the dead-letter state: the job ran out of attempts and waits for a manual retry */
+export type JobStatus = 'queued' | 'running' | 'completed' | 'dead';
+
+export const JOB_STATUSES: JobStatus[] = ['queued', 'running', 'completed', 'dead'];
+
+/** Completed jobs are purged this long after they finish; dead jobs are kept */
+const COMPLETED_JOB_RETENTION_SECONDS = 30 * 24 * 60 * 60;
+
+@Schema({ timestamps: true })
+export class Job {
+  @Prop({ type: String, required: true })
+  _id: string; // nanoid = jobId
+
+  @Prop({ type: String, required: true, enum: JOB_TYPES })
+  type: JobType;
+
+  @Prop({ type: Object, default: {} })
+  payload: Record<string, unknown>;
+
+  /** Enqueueing again with the same key returns the existing job instead of adding one */
+  @Prop({ unique: true, sparse: true })
+  idempotencyKey?: string;
+
+  @Prop({
+    type: String,
+    enum: JOB_STATUSES,
+    default: 'queued',
+  })
+  status: JobStatus;
+
+  @Prop({ type: Number, default: 0 })
+  attempts: number;
+
+  @Prop({ required: true })
+  maxAttempts: number;
+
+  @Prop({ required: true })
+  runAt: Date; // earliest time the next attempt may start
+
+  @Prop()
+  lockedAt?: Date; // set while running; a lock older than JOB_LOCK_TIMEOUT_SECONDS is taken over
+
+  @Prop()
+  lockedBy?: string;
+
+  @Prop()
+  lastError?: string;
+
+  @Prop({ type: Object })
+  result?: Record<string, unknown>;
+
+  @Prop({ index: { expireAfterSeconds: COMPLETED_JOB_RETENTION_SECONDS } })
+  completedAt?: Date;
+}
+
+export const JobSchema = SchemaFactory.createForClass(Job);
+
+// Workers pick the oldest due job of the types they handle
+JobSchema.index({ status: 1, runAt: 1 });
@@ -1,4 +1,6 @@
-import { IsString, IsEmail, IsBoolean, MinLength, MaxLength, Equals } from 'class-validator';
+import { IsString, IsEmail, IsBoolean, IsIn, IsOptional, MinLength, MaxLength, Equals } from 'class-validator';
+import { INDUSTRY_KEYS } from '../../common/config/industries';
+import type { IndustryKey } from '../../common/types/quiz';
 
 export class CreateLeadDto {
   @IsString()
@@ -24,6 +26,10 @@ export class CreateLeadDto {
   @MaxLength(100)
   city: string;
 
+  @IsOptional()
+  @IsIn(INDUSTRY_KEYS)
+  industry?: IndustryKey;
+
   @IsBoolean()
   @Equals(true)
   consentGiven: boolean;
@@ -1,9 +1,60 @@
 import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
 import { HydratedDocument } from 'mongoose';
 import type { TierKey } from '../common/types/scoring';
+import type { IndustryKey } from '../common/types/quiz';
+import type { NurtureStatus, NurtureStopReason } from '../common/types/nurture';
+import { INDUSTRY_KEYS } from '../common/config/industries';
+import { allTierKeys } from '../common/config/quiz-registry';
 
 export type LeadDocument = HydratedDocument<Lead>;
 
+@Schema({ _id: false })
+export class NurtureStepLog {
+  @Prop({ required: true })
+  stepId: string;
+
+  @Prop({ type: String, required: true, enum: ['sent', 'skipped'] })
+  outcome: 'sent' | 'skipped'; // skipped when the step had nothing to show, e.g. no fixes left
+
+  @Prop({ required: true })
+  at: Date;
+}
+
+const NurtureStepLogSchema = SchemaFactory.createForClass(NurtureStepLog);
+
+/** The lead's current nurture sequence; replaced when a newer report email starts another one */
+@Schema({ _id: false })
+export class LeadNurture {
+  @Prop({ type: String, required: true, enum: allTierKeys })
+  tier: TierKey;
+
+  @Prop({ required: true })
+  sessionId: string;
+
+  @Prop({ required: true })
+  reportId: string;
+
+  @Prop({ required: true })
+  startedAt: Date;
+
+  @Prop({ type: String, required: true, enum: ['active', 'completed', 'stopped'] })
+  status: NurtureStatus;
+
+  @Prop({ type: String, enum: ['unsubscribed', 'booked', 'send_failed'] })
+  stopReason?: NurtureStopReason;
+
+  @Prop()
+  nextStepId?: string;
+
+  @Prop()
+  nextSendAt?: Date;
+
+  @Prop({ type: [NurtureStepLogSchema], default: [] })
+  steps: NurtureStepLog[];
+}
+
+const LeadNurtureSchema = SchemaFactory.createForClass(LeadNurture);
+
 @Schema({ timestamps: true })
 export class Lead {
   @Prop({ type: String, required: true })
@@ -27,7 +78,10 @@ export class Lead {
   @Prop({ required: true })
   city: string;
 
-  @Prop({ type: String, enum: ['at_risk', 'needs_improvement', 'growth_ready', 'market_leader'] })
+  @Prop({ type: String, enum: INDUSTRY_KEYS, default: 'general' })
+  industry: IndustryKey;
+
+  @Prop({ type: String, enum: allTierKeys })
   scoreTier?: TierKey;
 
   @Prop({ type: Number, min: 0, max: 100 })
@@ -41,6 +95,12 @@ export class Lead {
 
   @Prop({ required: true })
   consentGiven: boolean;
+
+  @Prop({ type: LeadNurtureSchema })
+  nurture?: LeadNurture;
+
+  @Prop()
+  bookedAt?: Date;
 }
 
 export const LeadSchema = SchemaFactory.createForClass(Lead);
@@ -39,6 +39,7 @@ export class LeadService {
       phone: this.encryption.encrypt(phone),
       businessName: this.encryption.encrypt(businessName),
       city,
+      industry: dto.industry ?? 'general',
       consentGiven: dto.consentGiven,
       tags: ['quiz-lead'],
     });
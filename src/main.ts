@@ -5,7 +5,11 @@ import * as compression from 'compression';
 import { AppModule } from './app.module';
 
 async function bootstrap() {
-  const app = await NestFactory.create(AppModule);
+  // Keep the raw request body for verifying webhook signatures
+  const app = await NestFactory.create(AppModule, { rawBody: true });
+
+  // Let the job worker finish running jobs on SIGTERM
+  app.enableShutdownHooks();
 
   // Security headers
   app.use(helmet());
@@ -23,7 +27,7 @@ async function bootstrap() {
 
   app.enableCors({
     origin: allowedOrigins,
-    methods: ['GET', 'POST'],
+    methods: ['GET', 'POST', 'PATCH'],
     credentials: true,
   });
 
@@ -0,0 +1,13 @@
+import { Module } from '@nestjs/common';
+import { NurtureService } from './nurture.service';
+import { LeadModule } from '../lead/lead.module';
+import { QuizModule } from '../quiz/quiz.module';
+import { EmailModule } from '../email/email.module';
+import { JobModule } from '../job/job.module';
+
+@Module({
+  imports: [LeadModule, QuizModule, EmailModule, JobModule],
+  providers: [NurtureService],
+  exports: [NurtureService],
+})
+export class NurtureModule {}
@@ -0,0 +1,297 @@
+import { Injectable, Logger, NotFoundException, OnModuleInit } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model } from 'mongoose';
+import { Lead, LeadDocument } from '../lead/lead.schema';
+import { QuizResponse, QuizResponseDocument } from '../quiz/quiz-response.schema';
+import { QuizService } from '../quiz/quiz.service';
+import { EmailService } from '../email/email.service';
+import { SuppressionService } from '../email/suppression.service';
+import { EMAIL_CATEGORIES } from '../email/suppression.schema';
+import { JobQueueService } from '../job/job-queue.service';
+import { EncryptionService } from '../common/encryption/encryption.service';
+import { reportDownloadUrl } from '../common/links/report-links';
+import { ScoringService } from '../common/scoring/scoring.service';
+import { RecommendationService } from '../common/recommendation/recommendation.service';
+import { QuizRegistryService } from '../common/quiz-registry/quiz-registry.service';
+import { nurtureSequences } from '../common/config/nurture';
+import { quizRegistry } from '../common/config/quiz-registry';
+import type { NurtureStep, NurtureStopReason } from '../common/types/nurture';
+import type { TierCTA, TierKey } from '../common/types/scoring';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Action-plan items in a quick-fixes email */
+const QUICK_FIX_COUNT = 3;
+
+interface NurturePayload {
+  leadId: string;
+  sessionId: string; // the sequence this step belongs to; a newer sequence makes it a no-op
+  stepId: string;
+}
+
+/** Everything step-specific in a nurture email */
+interface NurtureEmail {
+  subject: string;
+  heading: string;
+  intro: string;
+  items: { title: string; detail: string }[];
+  cta: { label: string; subtext?: string; url: string };
+}
+
+/**
+ * Tier-based follow-up emails after the report email. The sequence state lives on the lead;
+ * each step is a `send_nurture_email` job scheduled for its send time, and the job queue worker
+ * is the scheduler. A step that finds the sequence stopped, finished or replaced does nothing.
+ */
+@Injectable()
+export class NurtureService implements OnModuleInit {
+  private readonly logger = new Logger(NurtureService.name);
+
+  constructor(
+    @InjectModel(Lead.name) private leadModel: Model<LeadDocument>,
+    @InjectModel(QuizResponse.name) private quizResponseModel: Model<QuizResponseDocument>,
+    private quizService: QuizService,
+    private emailService: EmailService,
+    private suppression: SuppressionService,
+    private jobQueue: JobQueueService,
+    private encryption: EncryptionService,
+    private scoringService: ScoringService,
+    private recommendationService: RecommendationService,
+    private registry: QuizRegistryService,
+    private config: ConfigService,
+  ) {}
+
+  onModuleInit(): void {
+    const errors = this.validateSequences();
+    if (errors.length) {
+      throw new Error(`Invalid nurture sequences: ${errors.join('; ')}`);
+    }
+
+    this.jobQueue.register<NurturePayload>('send_nurture_email', {
+      run: (payload) => this.runStep(payload),
+      onDead: ({ leadId, sessionId }) => this.stop(leadId, 'send_failed', sessionId),
+    });
+  }
+
+  /**
+   * Start the sequence for the tier of a session whose report was just emailed. Any earlier
+   * sequence is replaced; starting again for the same session does nothing.
+   */
+  async start(leadId: string, sessionId: string, reportId: string): Promise<void> {
+    const [lead, quizResponse] = await Promise.all([
+      this.leadModel.findById(leadId, { nurture: 1, emailHash: 1, bookedAt: 1 }),
+      this.quizResponseModel.findById(sessionId, { tier: 1 }),
+    ]);
+    if (!lead || !quizResponse) return;
+    if (lead.bookedAt || lead.nurture?.sessionId === sessionId) return;
+    if (await this.suppression.isSuppressed(lead.emailHash, 'nurture')) return;
+
+    const tier = quizResponse.tier as TierKey;
+    const [first] = nurtureSequences[tier];
+    if (!first) return;
+
+    const startedAt = new Date();
+    const nextSendAt = this.sendTime(startedAt, first);
+    await this.enqueue({ leadId, sessionId, stepId: first.id }, nextSendAt);
+    await this.leadModel.updateOne(
+      { _id: leadId },
+      {
+        $set: {
+          nurture: {
+            tier,
+            sessionId,
+            reportId,
+            startedAt,
+            status: 'active',
+            nextStepId: first.id,
+            nextSendAt,
+            steps: [],
+          },
+        },
+      },
+    );
+    this.logger.log(`Nurture sequence ${tier} started for lead ${leadId}`);
+  }
+
+  /** Record that the lead booked a call; no more nurture emails */
+  async markBooked(leadId: string): Promise<void> {
+    const { matchedCount } = await this.leadModel.updateOne({ _id: leadId }, { $set: { bookedAt: new Date() } });
+    if (!matchedCount) {
+      throw new NotFoundException('Lead not found');
+    }
+    await this.stop(leadId, 'booked');
+  }
+
+  /** Put the lead's address on the suppression list for all email, on their behalf */
+  async markUnsubscribed(leadId: string): Promise<void> {
+    const lead = await this.leadModel.findById(leadId, { emailHash: 1 });
+    if (!lead) {
+      throw new NotFoundException('Lead not found');
+    }
+    await this.suppression.suppress(lead.emailHash, EMAIL_CATEGORIES, 'admin');
+    await this.stop(leadId, 'unsubscribed');
+  }
+
+  /** Stop the active sequence, or only the given session's sequence if it is still the active one */
+  private async stop(leadId: string, reason: NurtureStopReason, sessionId?: string): Promise<void> {
+    await this.leadModel.updateOne(
+      {
+        _id: leadId,
+        'nurture.status': 'active',
+        ...(sessionId ? { 'nurture.sessionId': sessionId } : {}),
+      },
+      {
+        $set: { 'nurture.status': 'stopped', 'nurture.stopReason': reason },
+        $unset: { 'nurture.nextStepId': 1, 'nurture.nextSendAt': 1 },
+      },
+    );
+  }
+
+  /** Job handler: send one step, then schedule the next */
+  private async runStep(payload: NurturePayload): Promise<Record<string, unknown>> {
+    const { leadId, sessionId, stepId } = payload;
+    const lead = await this.leadModel.findById(leadId);
+    const nurture = lead?.nurture;
+    if (!lead || nurture?.status !== 'active' || nurture.sessionId !== sessionId || nurture.nextStepId !== stepId) {
+      return { skipped: true };
+    }
+    if (lead.bookedAt) {
+      await this.stop(leadId, 'booked', sessionId);
+      return { skipped: true };
+    }
+
+    const steps = nurtureSequences[nurture.tier];
+    const index = steps.findIndex((step) => step.id === stepId);
+    const quizResponse = await this.quizResponseModel.findById(sessionId);
+    if (index === -1 || !quizResponse) {
+      throw new Error(`Nurture step ${stepId} or quiz response ${sessionId} no longer exists`);
+    }
+
+    const email = this.buildEmail(steps[index], nurture.tier, quizResponse, nurture.reportId);
+    if (email) {
+      const outcome = await this.emailService.sendNurtureEmail({
+        toEmail: this.encryption.decrypt(lead.email),
+        leadId,
+        fullName: this.encryption.decrypt(lead.fullName),
+        tier: nurture.tier,
+        ...email,
+      });
+      if (outcome === 'failed') {
+        throw new Error(`Nurture email ${stepId} failed for lead ${leadId}`);
+      }
+      // Unsubscribed since the sequence started, e.g. through an email's unsubscribe link
+      if (outcome === 'suppressed') {
+        await this.stop(leadId, 'unsubscribed', sessionId);
+        return { skipped: true };
+      }
+    }
+
+    // Queue the next step before recording this one, so a retry after a failed write
+    // can't leave the sequence without a next job (enqueueing again is idempotent)
+    const next = steps[index + 1];
+    const nextSendAt = next ? this.sendTime(nurture.startedAt, next) : undefined;
+    if (next) {
+      await this.enqueue({ leadId, sessionId, stepId: next.id }, nextSendAt!);
+    }
+
+    const outcome = email ? 'sent' : 'skipped';
+    await this.leadModel.updateOne(
+      { _id: leadId, 'nurture.sessionId': sessionId, 'nurture.nextStepId': stepId },
+      next
+        ? {
+            $push: { 'nurture.steps': { stepId, outcome, at: new Date() } },
+            $set: { 'nurture.nextStepId': next.id, 'nurture.nextSendAt': nextSendAt },
+          }
+        : {
+            $push: { 'nurture.steps': { stepId, outcome, at: new Date() } },
+            $set: { 'nurture.status': 'completed' },
+            $unset: { 'nurture.nextStepId': 1, 'nurture.nextSendAt': 1 },
+          },
+    );
+    return { leadId, stepId, outcome };
+  }
+
+  /** Fill in a step for this response; null when the step has nothing to show */
+  private buildEmail(
+    step: NurtureStep,
+    tier: TierKey,
+    quizResponse: QuizResponseDocument,
+    reportId: string,
+  ): NurtureEmail | null {
+    const result = this.quizService.rescore(quizResponse);
+    const { pillars, tiers } = this.registry.resolve(result.quizVersion, quizResponse.industry);
+    const lowest = this.scoringService.getLowestPillar(result);
+
+    let items: NurtureEmail['items'] = [];
+    let cta: NurtureEmail['cta'];
+    switch (step.content) {
+      case 'quick_fixes': {
+        const plan = this.recommendationService.buildActionPlan(result);
+        items = [...plan.filter((item) => item.pillar === lowest), ...plan.filter((item) => item.pillar !== lowest)]
+          .slice(0, QUICK_FIX_COUNT)
+          .map((item) => ({ title: item.title, detail: item.detail }));
+        if (!items.length) return null;
+
+        const appUrl = this.config.get<string>('APP_URL', 'https://localmarketingaudit.com');
+        cta = {
+          label: 'View Your Playbook',
+          url: reportDownloadUrl(appUrl, reportId, this.encryption.signToken(reportId)),
+        };
+        break;
+      }
+      case 'primary_offer':
+        cta = this.tierCta(tiers[tier].primaryCTA);
+        break;
+      case 'secondary_offer': {
+        const secondary = tiers[tier].secondaryCTA;
+        if (!secondary) return null;
+        cta = this.tierCta(secondary);
+        break;
+      }
+    }
+
+    const fill = (text: string) =>
+      text.replace(/\{\{pillar\}\}/g, pillars[lowest].name).replace(/\{\{count\}\}/g, String(items.length));
+    return { subject: fill(step.subject), heading: fill(step.heading), intro: fill(step.intro), items, cta };
+  }
+
+  /** Tier CTAs link relative to the marketing site */
+  private tierCta(cta: TierCTA): NurtureEmail['cta'] {
+    const siteUrl = this.config.get<string>('SITE_URL', 'https://localmarketingaudit.com');
+    return { label: cta.label, subtext: cta.subtext, url: new URL(cta.href, siteUrl).toString() };
+  }
+
+  private sendTime(startedAt: Date, step: NurtureStep): Date {
+    return new Date(startedAt.getTime() + step.delayDays * DAY_MS);
+  }
+
+  private enqueue(payload: NurturePayload, runAt: Date) {
+    return this.jobQueue.enqueue('send_nurture_email', { ...payload }, {
+      idempotencyKey: `send_nurture_email:${payload.sessionId}:${payload.stepId}`,
+      runAt,
+    });
+  }
+
+  private validateSequences(): string[] {
+    const errors: string[] = [];
+    const seen = new Set<string>();
+    for (const [tier, steps] of Object.entries(nurtureSequences) as [TierKey, NurtureStep[]][]) {
+      steps.forEach((step, i) => {
+        if (seen.has(step.id)) errors.push(`duplicate step id ${step.id}`);
+        seen.add(step.id);
+        if (step.delayDays < 0 || (i > 0 && step.delayDays <= steps[i - 1].delayDays)) {
+          errors.push(`${step.id}: delays must be non-negative and increasing`);
+        }
+        if (step.content === 'secondary_offer') {
+          for (const definition of Object.values(quizRegistry)) {
+            if (!definition.tiers[tier].secondaryCTA) {
+              errors.push(`${step.id}: tier ${tier} has no secondary CTA in quiz version ${definition.version}`);
+            }
+          }
+        }
+      });
+    }
+    return errors;
+  }
+}
@@ -0,0 +1,7 @@
+import { IsString, MinLength } from 'class-validator';
+
+export class CompleteDraftDto {
+  @IsString()
+  @MinLength(1)
+  leadId: string;
+}
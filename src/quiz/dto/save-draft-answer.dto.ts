@@ -0,0 +1,11 @@
+import { IsIn, IsInt, Min } from 'class-validator';
+import type { QuizAnswer } from '../../common/types/quiz';
+
+export class SaveDraftAnswerDto {
+  @IsInt()
+  @Min(1)
+  questionId: number;
+
+  @IsIn(['a', 'b', 'c', 'na'])
+  answer: QuizAnswer;
+}
@@ -1,13 +1,19 @@
-import { IsString, IsArray, IsIn, ArrayMinSize, ArrayMaxSize, MinLength } from 'class-validator';
+import { IsString, IsArray, IsIn, IsOptional, MinLength } from 'class-validator';
+import { quizRegistry } from '../../common/config/quiz-registry';
+import type { QuizAnswer } from '../../common/types/quiz';
 
 export class SubmitQuizDto {
   @IsString()
   @MinLength(1)
   leadId: string;
 
+  // Answer count, skip conditions and N/A allowances are checked against the definition in ScoringService
   @IsArray()
-  @ArrayMinSize(10)
-  @ArrayMaxSize(10)
-  @IsIn(['a', 'b', 'c'], { each: true })
-  answers: ('a' | 'b' | 'c')[];
+  @IsIn(['a', 'b', 'c', 'na'], { each: true })
+  answers: QuizAnswer[];
+
+  /** The version the client rendered (the definition's `version`); defaults to the current one */
+  @IsOptional()
+  @IsIn(Object.keys(quizRegistry))
+  quizVersion?: string;
 }
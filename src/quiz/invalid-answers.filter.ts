@@ -0,0 +1,12 @@
+import { ArgumentsHost, BadRequestException, Catch, ExceptionFilter } from '@nestjs/common';
+import { Response } from 'express';
+import { InvalidAnswersError } from '../common/scoring/invalid-answers.error';
+
+/** Answers rejected by ScoringService are the client's mistake: respond 400 with the problems */
+@Catch(InvalidAnswersError)
+export class InvalidAnswersFilter implements ExceptionFilter {
+  catch(error: InvalidAnswersError, host: ArgumentsHost) {
+    const exception = new BadRequestException(error.problems);
+    host.switchToHttp().getResponse<Response>().status(exception.getStatus()).json(exception.getResponse());
+  }
+}
@@ -0,0 +1,34 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { HydratedDocument } from 'mongoose';
+
+export type QuizAttemptCounterDocument = HydratedDocument<QuizAttemptCounter>;
+
+/**
+ * A lead's attempt sequence. Each submission reserves its attempt number, its link to the previous
+ * attempt and (under the `cap` policy) its place in the retake period with one conditional update,
+ * so concurrent submissions can't share an attempt number or exceed QUIZ_RETAKE_LIMIT.
+ */
+@Schema({ timestamps: true })
+export class QuizAttemptCounter {
+  @Prop({ type: String, required: true })
+  _id: string; // leadId
+
+  /** Attempts reserved so far = the latest attempt's number */
+  @Prop({ required: true, default: 0 })
+  attempts: number;
+
+  /** Session that reserved the latest attempt, and the attempt before it */
+  @Prop()
+  lastSessionId?: string;
+
+  @Prop()
+  previousSessionId?: string;
+
+  @Prop({ required: true })
+  periodStart: Date; // first attempt of the period; a new period starts once it is QUIZ_RETAKE_PERIOD_DAYS old
+
+  @Prop({ required: true, default: 0 })
+  count: number; // attempts in the current period
+}
+
+export const QuizAttemptCounterSchema = SchemaFactory.createForClass(QuizAttemptCounter);
@@ -0,0 +1,62 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { HydratedDocument } from 'mongoose';
+import type { QuizAnswer } from '../common/types/quiz';
+
+export type QuizDraftDocument = HydratedDocument<QuizDraft>;
+
+/** `completing`: claimed by the request recording its response; `completedSessionId` is reserved */
+export type QuizDraftStatus = 'in_progress' | 'completing' | 'completed';
+
+export const QUIZ_DRAFT_STATUSES: QuizDraftStatus[] = ['in_progress', 'completing', 'completed'];
+
+/** Drafts stay queryable for drop-off analysis this long after they can no longer be resumed */
+const DRAFT_RETENTION_SECONDS = 30 * 24 * 60 * 60;
+
+@Schema({ _id: false })
+export class DraftAnswer {
+  @Prop({ required: true })
+  questionId: number;
+
+  @Prop({ type: String, required: true, enum: ['a', 'b', 'c', 'na'] })
+  answer: QuizAnswer;
+
+  @Prop({ required: true })
+  answeredAt: Date;
+}
+
+const DraftAnswerSchema = SchemaFactory.createForClass(DraftAnswer);
+
+@Schema({ timestamps: true })
+export class QuizDraft {
+  @Prop({ type: String, required: true })
+  _id: string; // nanoid = draftId
+
+  @Prop({ required: true })
+  quizVersion: string; // pinned at start so a resumed draft keeps its questions
+
+  @Prop({ type: [DraftAnswerSchema], default: [] })
+  answers: DraftAnswer[];
+
+  @Prop({ type: Number, index: true })
+  lastQuestionId?: number; // furthest point reached, for per-question abandonment
+
+  @Prop({
+    type: String,
+    enum: QUIZ_DRAFT_STATUSES,
+    default: 'in_progress',
+    index: true,
+  })
+  status: QuizDraftStatus;
+
+  /** Reserved when completion starts, so a retried completion records the same session */
+  @Prop()
+  completedSessionId?: string;
+
+  @Prop()
+  completingAt?: Date;
+
+  @Prop({ required: true, index: { expireAfterSeconds: DRAFT_RETENTION_SECONDS } })
+  expiresAt: Date; // resume deadline; the document is purged after the retention window
+}
+
+export const QuizDraftSchema = SchemaFactory.createForClass(QuizDraft);
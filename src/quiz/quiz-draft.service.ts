@@ -0,0 +1,228 @@
+import {
+  BadRequestException,
+  ConflictException,
+  GoneException,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model } from 'mongoose';
+import { QuizDraft, QuizDraftDocument, QuizDraftStatus } from './quiz-draft.schema';
+import { QuizService } from './quiz.service';
+import { SaveDraftAnswerDto } from './dto/save-draft-answer.dto';
+import { ScoringService } from '../common/scoring/scoring.service';
+import { QuizRegistryService } from '../common/quiz-registry/quiz-registry.service';
+import { IdService } from '../common/id/id.service';
+import type { QuizAnswer, QuizDefinition } from '../common/types/quiz';
+
+/** A completion still `completing` after this long is taken to have died and can be taken over */
+const COMPLETION_TIMEOUT_MS = 60_000;
+
+export interface QuizDraftView {
+  draftId: string;
+  quizVersion: string;
+  status: QuizDraftStatus;
+  answers: { questionId: number; answer: QuizAnswer }[];
+  skippedQuestionIds: number[];
+  nextQuestionId: number | null;
+  expiresAt: Date;
+  sessionId?: string;
+}
+
+@Injectable()
+export class QuizDraftService {
+  constructor(
+    @InjectModel(QuizDraft.name) private draftModel: Model<QuizDraftDocument>,
+    private quizService: QuizService,
+    private scoring: ScoringService,
+    private registry: QuizRegistryService,
+    private id: IdService,
+    private config: ConfigService,
+  ) {}
+
+  /** Start a draft pinned to the current quiz version */
+  async start(): Promise<QuizDraftView> {
+    const draft = await this.draftModel.create({
+      _id: this.id.generateId(),
+      quizVersion: this.registry.current().version,
+      expiresAt: this.nextExpiry(),
+    });
+    return this.toView(draft);
+  }
+
+  async resume(draftId: string): Promise<QuizDraftView> {
+    return this.toView(await this.findResumable(draftId));
+  }
+
+  /** Save (or change) a single answer and extend the draft's expiry */
+  async saveAnswer(draftId: string, dto: SaveDraftAnswerDto): Promise<QuizDraftView> {
+    const draft = await this.findResumable(draftId);
+    if (draft.status !== 'in_progress') {
+      throw new ConflictException('Quiz draft already completed');
+    }
+
+    const definition = this.registry.resolve(draft.quizVersion);
+    const questionIndex = definition.questions.findIndex((q) => q.id === dto.questionId);
+    if (questionIndex === -1) {
+      throw new BadRequestException(`Question ${dto.questionId} is not part of quiz version ${draft.quizVersion}`);
+    }
+
+    if (dto.answer === 'na') {
+      const skipped = this.scoring.getSkippedQuestionIds(this.positionalAnswers(draft, definition), definition);
+      if (!definition.questions[questionIndex].allowNotApplicable && !skipped.has(dto.questionId)) {
+        throw new BadRequestException(`Question ${dto.questionId} does not allow 'na'`);
+      }
+    }
+
+    // Each write is a single conditional update, so concurrent saves can't lose or duplicate answers
+    const answeredAt = new Date();
+    const expiresAt = this.nextExpiry();
+    const open = { _id: draftId, status: 'in_progress' };
+    const replace = () =>
+      this.draftModel.findOneAndUpdate(
+        { ...open, 'answers.questionId': dto.questionId },
+        { $set: { 'answers.$.answer': dto.answer, 'answers.$.answeredAt': answeredAt, expiresAt } },
+        { new: true },
+      );
+    const add = () =>
+      this.draftModel.findOneAndUpdate(
+        { ...open, 'answers.questionId': { $ne: dto.questionId } },
+        { $push: { answers: { questionId: dto.questionId, answer: dto.answer, answeredAt } }, $set: { expiresAt } },
+        { new: true },
+      );
+    // A concurrent save of the same question may add it between the two; replace it then
+    const updated = (await replace()) ?? (await add()) ?? (await replace());
+    if (!updated) {
+      throw new ConflictException('Quiz draft already completed');
+    }
+
+    // Furthest point reached: only move forward in question order
+    const earlierIds = definition.questions.slice(0, questionIndex).map((q) => q.id);
+    await this.draftModel.updateOne(
+      { _id: draftId, $or: [{ lastQuestionId: { $exists: false } }, { lastQuestionId: { $in: earlierIds } }] },
+      { lastQuestionId: dto.questionId },
+    );
+
+    return this.toView(updated, definition);
+  }
+
+  /**
+   * Turn a draft into a normal QuizResponse. Skipped questions are recorded as 'na';
+   * completing an already-completed draft returns its original session. The draft is claimed
+   * atomically first, so a double submit records one response.
+   */
+  async complete(draftId: string, leadId: string) {
+    const draft = await this.claimCompletion(draftId);
+    if (draft.status === 'completed') {
+      return this.quizService.getResult(draft.completedSessionId!);
+    }
+
+    try {
+      const definition = this.registry.resolve(draft.quizVersion);
+      const partial = this.positionalAnswers(draft, definition);
+      const skipped = this.scoring.getSkippedQuestionIds(partial, definition);
+
+      const missing = definition.questions
+        .filter((q, index) => partial[index] === undefined && !skipped.has(q.id))
+        .map((q) => q.id);
+      if (missing.length) {
+        throw new BadRequestException(`Unanswered questions: ${missing.join(', ')}`);
+      }
+
+      const answers = definition.questions.map((q, index): QuizAnswer =>
+        skipped.has(q.id) ? 'na' : partial[index]!,
+      );
+      const result = await this.quizService.recordResponse(
+        leadId,
+        answers,
+        draft.quizVersion,
+        draft.completedSessionId,
+      );
+
+      await this.draftModel.updateOne(
+        { _id: draftId, status: 'completing' },
+        { status: 'completed', completedSessionId: result.sessionId, $unset: { completingAt: 1 } },
+      );
+      return result;
+    } catch (err) {
+      // Release the claim so the client can fix the problem and complete again
+      await this.draftModel.updateOne(
+        { _id: draftId, status: 'completing' },
+        { status: 'in_progress', $unset: { completingAt: 1 } },
+      );
+      throw err;
+    }
+  }
+
+  /**
+   * Move the draft to `completing`, reserving its session id. Returns the draft as claimed, or
+   * the completed draft; 409 while another request is completing it.
+   */
+  private async claimCompletion(draftId: string): Promise<QuizDraftDocument> {
+    const now = new Date();
+    const claimed = await this.draftModel.findOneAndUpdate(
+      {
+        _id: draftId,
+        $or: [
+          { status: 'in_progress', expiresAt: { $gte: now } },
+          // The request completing it died; its reserved session id is reused
+          { status: 'completing', completingAt: { $lt: new Date(now.getTime() - COMPLETION_TIMEOUT_MS) } },
+        ],
+      },
+      [
+        {
+          $set: {
+            status: 'completing',
+            completingAt: now,
+            completedSessionId: { $ifNull: ['$completedSessionId', this.id.generateId()] },
+          },
+        },
+      ],
+      { new: true },
+    );
+    if (claimed) return claimed;
+
+    const draft = await this.findResumable(draftId);
+    if (draft.status === 'completed' && draft.completedSessionId) return draft;
+    throw new ConflictException('Quiz draft is already being completed');
+  }
+
+  private async findResumable(draftId: string): Promise<QuizDraftDocument> {
+    const draft = await this.draftModel.findById(draftId);
+    if (!draft) {
+      throw new NotFoundException('Quiz draft not found');
+    }
+    if (draft.status === 'in_progress' && draft.expiresAt.getTime() < Date.now()) {
+      throw new GoneException('Quiz draft has expired');
+    }
+    return draft;
+  }
+
+  /** Draft answers laid out in question order (undefined where unanswered) */
+  private positionalAnswers(draft: QuizDraftDocument, definition: QuizDefinition): (QuizAnswer | undefined)[] {
+    return definition.questions.map((q) => draft.answers.find((a) => a.questionId === q.id)?.answer);
+  }
+
+  private toView(draft: QuizDraftDocument, definition = this.registry.resolve(draft.quizVersion)): QuizDraftView {
+    const partial = this.positionalAnswers(draft, definition);
+    const skipped = this.scoring.getSkippedQuestionIds(partial, definition);
+    const next = definition.questions.find((q, index) => partial[index] === undefined && !skipped.has(q.id));
+
+    return {
+      draftId: draft._id,
+      quizVersion: draft.quizVersion,
+      status: draft.status,
+      answers: draft.answers.map(({ questionId, answer }) => ({ questionId, answer })),
+      skippedQuestionIds: [...skipped],
+      nextQuestionId: next?.id ?? null,
+      expiresAt: draft.expiresAt,
+      sessionId: draft.status === 'completed' ? draft.completedSessionId : undefined,
+    };
+  }
+
+  private nextExpiry(): Date {
+    const hours = Number(this.config.get('QUIZ_DRAFT_TTL_HOURS', 72));
+    return new Date(Date.now() + hours * 60 * 60 * 1000);
+  }
+}
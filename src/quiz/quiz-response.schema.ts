@@ -1,7 +1,9 @@
 import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
 import { HydratedDocument } from 'mongoose';
-import type { AnswerKey } from '../common/types/quiz';
-import type { TierKey } from '../common/types/scoring';
+import type { IndustryKey, QuizAnswer } from '../common/types/quiz';
+import type { PillarKey, PillarScores, TierKey } from '../common/types/scoring';
+import { allTierKeys, findQuizDefinition } from '../common/config/quiz-registry';
+import { INDUSTRY_KEYS } from '../common/config/industries';
 
 export type QuizResponseDocument = HydratedDocument<QuizResponse>;
 
@@ -14,14 +16,17 @@ export class QuizResponse {
   leadId: string;
 
   @Prop({
-    type: [{ type: String, enum: ['a', 'b', 'c'] }],
+    type: [{ type: String, enum: ['a', 'b', 'c', 'na'] }],
     required: true,
     validate: {
-      validator: (v: string[]) => v.length === 10,
-      message: 'Must have exactly 10 answers',
+      validator: function (this: QuizResponse, v: string[]) {
+        const definition = findQuizDefinition(this.quizVersion);
+        return !!definition && v.length === definition.questions.length;
+      },
+      message: 'Answer count must match the question count of the recorded quiz version',
     },
   })
-  answers: AnswerKey[];
+  answers: QuizAnswer[];
 
   @Prop({ required: true, min: 0, max: 100 })
   totalScore: number;
@@ -29,15 +34,37 @@ export class QuizResponse {
   @Prop({
     type: String,
     required: true,
-    enum: ['at_risk', 'needs_improvement', 'growth_ready', 'market_leader'],
+    enum: allTierKeys,
   })
   tier: TierKey;
 
+  @Prop({ type: Object })
+  pillarScores?: PillarScores; // absent on responses recorded before pillar scores were stored
+
+  /** Pillars with every question skipped; their `pillarScores` entry is 0 but means "no score" */
+  @Prop({ type: [String], default: undefined })
+  unscoredPillars?: PillarKey[];
+
   @Prop({ required: true })
   quizVersion: string;
 
+  @Prop({ type: String, enum: INDUSTRY_KEYS, default: 'general' })
+  industry: IndustryKey;
+
+  @Prop({ type: Number, default: 1 })
+  attempt: number; // 1-based, per lead
+
+  @Prop()
+  previousSessionId?: string; // the lead's prior attempt, if any
+
   @Prop({ required: true })
   completedAt: Date;
 }
 
 export const QuizResponseSchema = SchemaFactory.createForClass(QuizResponse);
+
+// Attempt history per lead, newest first
+QuizResponseSchema.index({ leadId: 1, completedAt: -1 });
+
+// Benchmarks: each lead's latest response on a quiz version
+QuizResponseSchema.index({ quizVersion: 1, leadId: 1, completedAt: -1 });
@@ -1,15 +1,63 @@
-import { Controller, Post, Body } from '@nestjs/common';
+import { Controller, Post, Get, Patch, Body, Param, Query, Res, UseFilters } from '@nestjs/common';
 import { Throttle } from '@nestjs/throttler';
+import { Response } from 'express';
 import { QuizService } from './quiz.service';
+import { QuizDraftService } from './quiz-draft.service';
 import { SubmitQuizDto } from './dto/submit-quiz.dto';
+import { SaveDraftAnswerDto } from './dto/save-draft-answer.dto';
+import { CompleteDraftDto } from './dto/complete-draft.dto';
+import { InvalidAnswersFilter } from './invalid-answers.filter';
 
 @Controller('quiz')
+@UseFilters(InvalidAnswersFilter)
 export class QuizController {
-  constructor(private quizService: QuizService) {}
+  constructor(
+    private quizService: QuizService,
+    private draftService: QuizDraftService,
+  ) {}
+
+  @Get('definition')
+  definition(
+    @Query('version') version: string | undefined,
+    @Query('industry') industry: string | undefined,
+    @Res({ passthrough: true }) res: Response,
+  ) {
+    const { definition, etag } = this.quizService.getDefinition(version, industry);
+
+    // Express answers 304 itself when If-None-Match matches the ETag
+    res.set({
+      ETag: etag,
+      'Cache-Control': 'public, max-age=300',
+    });
+
+    return definition;
+  }
 
   @Post('submit')
   @Throttle({ default: { ttl: 60_000, limit: 10 } })
   async submit(@Body() dto: SubmitQuizDto) {
     return this.quizService.submit(dto);
   }
+
+  @Post('draft')
+  @Throttle({ default: { ttl: 60_000, limit: 10 } })
+  async startDraft() {
+    return this.draftService.start();
+  }
+
+  @Get('draft/:draftId')
+  async resumeDraft(@Param('draftId') draftId: string) {
+    return this.draftService.resume(draftId);
+  }
+
+  @Patch('draft/:draftId')
+  async saveDraftAnswer(@Param('draftId') draftId: string, @Body() dto: SaveDraftAnswerDto) {
+    return this.draftService.saveAnswer(draftId, dto);
+  }
+
+  @Post('draft/:draftId/complete')
+  @Throttle({ default: { ttl: 60_000, limit: 10 } })
+  async completeDraft(@Param('draftId') draftId: string, @Body() dto: CompleteDraftDto) {
+    return this.draftService.complete(draftId, dto.leadId);
+  }
 }
@@ -1,17 +1,24 @@
 import { Module } from '@nestjs/common';
 import { MongooseModule } from '@nestjs/mongoose';
 import { QuizResponse, QuizResponseSchema } from './quiz-response.schema';
+import { QuizDraft, QuizDraftSchema } from './quiz-draft.schema';
+import { QuizAttemptCounter, QuizAttemptCounterSchema } from './quiz-attempt-counter.schema';
 import { QuizController } from './quiz.controller';
 import { QuizService } from './quiz.service';
+import { QuizDraftService } from './quiz-draft.service';
 import { LeadModule } from '../lead/lead.module';
 
 @Module({
   imports: [
-    MongooseModule.forFeature([{ name: QuizResponse.name, schema: QuizResponseSchema }]),
+    MongooseModule.forFeature([
+      { name: QuizResponse.name, schema: QuizResponseSchema },
+      { name: QuizDraft.name, schema: QuizDraftSchema },
+      { name: QuizAttemptCounter.name, schema: QuizAttemptCounterSchema },
+    ]),
     LeadModule,
   ],
   controllers: [QuizController],
-  providers: [QuizService],
-  exports: [MongooseModule],
+  providers: [QuizService, QuizDraftService],
+  exports: [MongooseModule, QuizService],
 })
 export class QuizModule {}
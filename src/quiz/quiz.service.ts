@@ -1,41 +1,179 @@
-import { Injectable, NotFoundException } from '@nestjs/common';
+import { HttpException, HttpStatus, Injectable, NotFoundException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
 import { InjectModel } from '@nestjs/mongoose';
 import { Model } from 'mongoose';
+import { createHash } from 'crypto';
 import { QuizResponse, QuizResponseDocument } from './quiz-response.schema';
+import { QuizAttemptCounter, QuizAttemptCounterDocument } from './quiz-attempt-counter.schema';
 import { Lead, LeadDocument } from '../lead/lead.schema';
 import { SubmitQuizDto } from './dto/submit-quiz.dto';
 import { ScoringService } from '../common/scoring/scoring.service';
 import { IdService } from '../common/id/id.service';
-import { QUIZ_VERSION } from '../common/config/quiz-questions';
-import type { AnswerKey } from '../common/types/quiz';
+import { QuizRegistryService } from '../common/quiz-registry/quiz-registry.service';
+import { INDUSTRY_KEYS } from '../common/config/industries';
+import { isDuplicateKeyError } from '../common/mongo/query-helpers';
+import type { IndustryKey, Question, QuizAnswer } from '../common/types/quiz';
+import type { PillarConfig, PillarKey, PillarScores, ScoringResult, TierData, TierKey } from '../common/types/scoring';
+
+/** Everything a client needs to render the quiz the API scores against */
+export interface QuizDefinitionResponse {
+  version: string;
+  industry: IndustryKey;
+  questions: Question[];
+  pillars: (PillarConfig & { maxScore: number })[];
+  tiers: TierData[];
+}
+
+/** One entry in a lead's score timeline, with the change since their previous attempt */
+export interface QuizAttemptSummary {
+  sessionId: string;
+  attempt: number;
+  completedAt: Date;
+  quizVersion: string;
+  totalScore: number;
+  tier: TierKey;
+  pillarScores: PillarScores;
+  pillarMaxima: PillarScores;
+  change: { totalScore: number; pillarScores: PillarScores } | null;
+}
+
+/**
+ * How repeat quiz takers are handled within QUIZ_RETAKE_PERIOD_DAYS:
+ * - allow:  every submission creates a new attempt
+ * - cap:    at most QUIZ_RETAKE_LIMIT attempts per period (from the period's first attempt), then 429
+ * - latest: return the most recent attempt instead of creating a new one
+ */
+type RetakePolicy = 'allow' | 'cap' | 'latest';
+
+const RETAKE_POLICIES: RetakePolicy[] = ['allow', 'cap', 'latest'];
 
 @Injectable()
 export class QuizService {
+  private readonly definitionCache = new Map<string, { definition: QuizDefinitionResponse; etag: string }>();
+  private readonly retakePolicy: RetakePolicy;
+  private readonly retakeLimit: number;
+  private readonly retakePeriodMs: number;
+
   constructor(
     @InjectModel(QuizResponse.name) private quizResponseModel: Model<QuizResponseDocument>,
     @InjectModel(Lead.name) private leadModel: Model<LeadDocument>,
+    @InjectModel(QuizAttemptCounter.name) private attemptCounterModel: Model<QuizAttemptCounterDocument>,
     private scoring: ScoringService,
+    private registry: QuizRegistryService,
     private id: IdService,
-  ) {}
+    private config: ConfigService,
+  ) {
+    const policy = this.config.get<string>('QUIZ_RETAKE_POLICY', 'allow') as RetakePolicy;
+    if (!RETAKE_POLICIES.includes(policy)) {
+      throw new Error(`QUIZ_RETAKE_POLICY must be one of: ${RETAKE_POLICIES.join(', ')}`);
+    }
+    this.retakePolicy = policy;
+
+    const limit = Number(this.config.get('QUIZ_RETAKE_LIMIT', 3));
+    if (!Number.isInteger(limit) || limit < 1) {
+      throw new Error('QUIZ_RETAKE_LIMIT must be a positive integer');
+    }
+    this.retakeLimit = limit;
+
+    const periodDays = Number(this.config.get('QUIZ_RETAKE_PERIOD_DAYS', 30));
+    if (!Number.isFinite(periodDays) || periodDays <= 0) {
+      throw new Error('QUIZ_RETAKE_PERIOD_DAYS must be a positive number');
+    }
+    this.retakePeriodMs = periodDays * 24 * 60 * 60 * 1000;
+  }
+
+  /** Return the quiz definition plus a strong ETag derived from its content */
+  getDefinition(version?: string, industry?: string): { definition: QuizDefinitionResponse; etag: string } {
+    if (industry && !INDUSTRY_KEYS.includes(industry as IndustryKey)) {
+      throw new NotFoundException(`Industry ${industry} not found`);
+    }
+    const industryKey = (industry ?? 'general') as IndustryKey;
+    const source = version
+      ? this.registry.resolve(version, industryKey)
+      : this.registry.current(industryKey);
+
+    const cacheKey = `${source.version}:${industryKey}`;
+    let cached = this.definitionCache.get(cacheKey);
+    if (!cached) {
+      const maxima = this.scoring.getPillarMaxima(source);
+      const definition: QuizDefinitionResponse = {
+        version: source.version,
+        industry: industryKey,
+        questions: source.questions,
+        pillars: Object.values(source.pillars).map((pillar) => ({
+          ...pillar,
+          maxScore: maxima[pillar.key],
+        })),
+        tiers: this.registry.orderedTiers(source),
+      };
+      const hash = createHash('sha256').update(JSON.stringify(definition)).digest('hex');
+      cached = { definition, etag: `"${hash.slice(0, 32)}"` };
+      this.definitionCache.set(cacheKey, cached);
+    }
+    return cached;
+  }
 
   async submit(dto: SubmitQuizDto) {
-    const answers = dto.answers as AnswerKey[];
-    const result = this.scoring.calculateScore(answers);
-    const sessionId = this.id.generateId();
+    return this.recordResponse(dto.leadId, dto.answers, dto.quizVersion);
+  }
+
+  /**
+   * Score and persist a completed quiz as the lead's next attempt, then update the
+   * lead with the result. Unknown leads are rejected; repeat takers follow the retake policy.
+   * A session id reserved by the caller makes a retried call return the response already stored.
+   */
+  async recordResponse(
+    leadId: string,
+    answers: QuizAnswer[],
+    quizVersion?: string,
+    sessionId = this.id.generateId(),
+  ) {
+    if (await this.quizResponseModel.exists({ _id: sessionId })) {
+      return this.getResult(sessionId);
+    }
+
+    const lead = await this.leadModel.findById(leadId, { industry: 1 });
+    if (!lead) {
+      throw new NotFoundException('Lead not found');
+    }
+
+    if (this.retakePolicy === 'latest') {
+      const latest = await this.quizResponseModel
+        .findOne({ leadId, completedAt: { $gte: new Date(Date.now() - this.retakePeriodMs) } }, { _id: 1 })
+        .sort({ completedAt: -1 });
+      if (latest) return this.getResult(latest._id);
+    }
+
+    // Scored before an attempt is reserved, so invalid answers don't use one up
+    const industry = lead.industry ?? 'general';
+    const result = this.scoring.calculateScore(answers, quizVersion, industry);
+    const { attempt, previousSessionId } = await this.reserveAttempt(leadId, sessionId);
 
     // Persist quiz response
-    await this.quizResponseModel.create({
-      _id: sessionId,
-      leadId: dto.leadId,
-      answers,
-      totalScore: result.totalScore,
-      tier: result.tier,
-      quizVersion: QUIZ_VERSION,
-      completedAt: new Date(),
-    });
+    try {
+      await this.quizResponseModel.create({
+        _id: sessionId,
+        leadId,
+        answers,
+        totalScore: result.totalScore,
+        tier: result.tier,
+        pillarScores: result.pillarScores,
+        unscoredPillars: result.unscoredPillars,
+        quizVersion: result.quizVersion,
+        industry,
+        attempt,
+        previousSessionId,
+        completedAt: new Date(),
+      });
+    } catch (err) {
+      // A concurrent retry of the same session stored it first, under this reservation
+      if (isDuplicateKeyError(err)) return this.getResult(sessionId);
+      await this.releaseAttempt(leadId, sessionId);
+      throw err;
+    }
 
     // Update lead with score
-    await this.leadModel.findByIdAndUpdate(dto.leadId, {
+    await this.leadModel.findByIdAndUpdate(leadId, {
       scoreTier: result.tier,
       overallScore: result.totalScore,
       $addToSet: { tags: `tier:${result.tier}` },
@@ -43,8 +181,168 @@ export class QuizService {
 
     return {
       sessionId,
+      attempt,
       totalScore: result.totalScore,
       tier: result.tier,
     };
   }
+
+  /**
+   * Reserve the lead's next attempt number and its link to the previous attempt in one conditional
+   * update, so concurrent submissions never share either. Under the `cap` policy the same update
+   * counts the attempt against the period, or nothing is reserved and 429 is thrown. The period
+   * starts at its first attempt.
+   */
+  private async reserveAttempt(
+    leadId: string,
+    sessionId: string,
+  ): Promise<{ attempt: number; previousSessionId?: string }> {
+    const now = new Date();
+    const periodStart = new Date(now.getTime() - this.retakePeriodMs);
+    await this.seedAttemptCounter(leadId, now, periodStart);
+
+    // A retried session whose earlier try stopped after reserving keeps that reservation
+    const own = await this.attemptCounterModel.findOne({ _id: leadId, lastSessionId: sessionId }).lean();
+    if (own) return { attempt: own.attempts, previousSessionId: own.previousSessionId };
+
+    await this.attemptCounterModel.updateOne(
+      { _id: leadId, periodStart: { $lt: periodStart } },
+      { periodStart: now, count: 0 },
+    );
+    const reserved = await this.attemptCounterModel
+      .findOneAndUpdate(
+        { _id: leadId, ...(this.retakePolicy === 'cap' ? { count: { $lt: this.retakeLimit } } : {}) },
+        [
+          {
+            $set: {
+              attempts: { $add: ['$attempts', 1] },
+              count: { $add: ['$count', 1] },
+              previousSessionId: '$lastSessionId',
+              lastSessionId: { $literal: sessionId },
+            },
+          },
+        ],
+        { new: true },
+      )
+      .lean();
+    if (!reserved) {
+      throw new HttpException('Quiz attempt limit reached, please try again later', HttpStatus.TOO_MANY_REQUESTS);
+    }
+    return { attempt: reserved.attempts, previousSessionId: reserved.previousSessionId };
+  }
+
+  /** A lead's first submission since counters existed starts from their stored responses */
+  private async seedAttemptCounter(leadId: string, now: Date, periodStart: Date): Promise<void> {
+    if (await this.attemptCounterModel.exists({ _id: leadId, attempts: { $exists: true } })) return;
+
+    const [latest, recent] = await Promise.all([
+      this.quizResponseModel
+        .findOne({ leadId }, { attempt: 1, previousSessionId: 1 })
+        .sort({ completedAt: -1 })
+        .lean(),
+      this.quizResponseModel
+        .find({ leadId, completedAt: { $gte: periodStart } }, { completedAt: 1 })
+        .sort({ completedAt: 1 })
+        .lean(),
+    ]);
+    try {
+      await this.attemptCounterModel.updateOne(
+        { _id: leadId, attempts: { $exists: false } },
+        {
+          $set: {
+            attempts: latest?.attempt ?? 0,
+            lastSessionId: latest?._id,
+            previousSessionId: latest?.previousSessionId,
+          },
+          $setOnInsert: { periodStart: recent[0]?.completedAt ?? now, count: recent.length },
+        },
+        { upsert: true },
+      );
+    } catch (err) {
+      // A concurrent submission seeded it first
+      if (!isDuplicateKeyError(err)) throw err;
+    }
+  }
+
+  /** Give back a reservation whose response couldn't be stored, unless a later one was made since */
+  private async releaseAttempt(leadId: string, sessionId: string): Promise<void> {
+    await this.attemptCounterModel.updateOne({ _id: leadId, lastSessionId: sessionId }, [
+      {
+        $set: {
+          attempts: { $subtract: ['$attempts', 1] },
+          count: { $max: [{ $subtract: ['$count', 1] }, 0] },
+          lastSessionId: '$previousSessionId',
+        },
+      },
+    ]);
+  }
+
+  /** A lead's quiz attempts, oldest first, each with pillar deltas against the one before */
+  async getHistory(leadId: string): Promise<QuizAttemptSummary[]> {
+    const responses = await this.quizResponseModel
+      .find({ leadId })
+      .sort({ completedAt: 1 });
+
+    const history: QuizAttemptSummary[] = [];
+    for (const response of responses) {
+      const scored = this.rescore(response);
+      const pillarScores = response.pillarScores ?? scored.pillarScores;
+      const previous = history[history.length - 1];
+
+      history.push({
+        sessionId: response._id,
+        attempt: response.attempt,
+        completedAt: response.completedAt,
+        quizVersion: response.quizVersion,
+        totalScore: response.totalScore,
+        tier: response.tier,
+        pillarScores,
+        pillarMaxima: scored.pillarMaxima,
+        change: previous
+          ? {
+              totalScore: response.totalScore - previous.totalScore,
+              pillarScores: this.diffPillars(pillarScores, scored.pillarMaxima, previous),
+            }
+          : null,
+      });
+    }
+    return history;
+  }
+
+  /** Re-score a stored response under the version and industry it was taken with */
+  rescore(response: QuizResponseDocument): ScoringResult {
+    return this.scoring.calculateScore(response.answers, response.quizVersion, response.industry);
+  }
+
+  /** Per-pillar change against the previous attempt, comparable across quiz versions */
+  private diffPillars(
+    current: PillarScores,
+    maxima: PillarScores,
+    previous: Pick<QuizAttemptSummary, 'pillarScores' | 'pillarMaxima'>,
+  ): PillarScores {
+    const diff = { ...current };
+    for (const key of Object.keys(diff) as PillarKey[]) {
+      diff[key] = this.scoring.pillarChange(
+        current[key],
+        maxima[key],
+        previous.pillarScores[key] ?? 0,
+        previous.pillarMaxima[key] ?? 0,
+      );
+    }
+    return diff;
+  }
+
+  /** The submit-style result of a stored session */
+  async getResult(sessionId: string) {
+    const response = await this.quizResponseModel.findById(sessionId);
+    if (!response) {
+      throw new NotFoundException('Quiz response not found');
+    }
+    return {
+      sessionId,
+      attempt: response.attempt,
+      totalScore: response.totalScore,
+      tier: response.tier,
+    };
+  }
 }
@@ -0,0 +1,257 @@
+import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { InjectModel } from '@nestjs/mongoose';
+import { FilterQuery, Model } from 'mongoose';
+import { QuizResponse, QuizResponseDocument } from '../quiz/quiz-response.schema';
+import { Lead, LeadDocument } from '../lead/lead.schema';
+import { QuizRegistryService } from '../common/quiz-registry/quiz-registry.service';
+import { PILLAR_KEYS } from '../common/config/pillars';
+import { exactMatchPattern } from '../common/mongo/query-helpers';
+import type { PillarKey, PillarScores } from '../common/types/scoring';
+import type { IndustryKey } from '../common/types/quiz';
+
+
+export type BenchmarkScope = 'city' | 'industry' | 'global';
+
+/** Percentile rankings against peers: the share of peers scoring strictly lower */
+export interface Benchmark {
+  scope: BenchmarkScope;
+  /** Plural peer group, e.g. "businesses in Austin" */
+  peerLabel: string;
+  sampleSize: number;
+  quizVersion: string;
+  totalScore: number;
+  /** Null for unscored pillars, or when too few peers have a score for the pillar */
+  pillars: Record<PillarKey, number | null>;
+}
+
+export interface BenchmarkSubject {
+  leadId: string;
+  city: string;
+  industry: IndustryKey;
+  quizVersion: string;
+  totalScore: number;
+  pillarScores: PillarScores;
+  unscoredPillars: PillarKey[];
+}
+
+/** How many peers have each score: score → count */
+type Histogram = Map<number, number>;
+
+/** Score distribution of one peer group: each lead's latest response on the quiz version */
+interface Distribution {
+  computedAt: Date;
+  sampleSize: number;
+  total: Histogram;
+  /** Only peers who have a score for the pillar */
+  pillars: Record<PillarKey, Histogram>;
+}
+
+/** The subject's own counted response, taken out of its peer group */
+type OwnScores = Pick<QuizResponse, 'totalScore' | 'pillarScores' | 'unscoredPillars'>;
+
+@Injectable()
+export class BenchmarkService {
+  private readonly minSample: number;
+  private readonly cacheTtlMs: number;
+  private readonly cache = new Map<string, { expiresAt: number; distribution: Promise<Distribution> }>();
+
+  constructor(
+    @InjectModel(QuizResponse.name) private quizResponseModel: Model<QuizResponseDocument>,
+    @InjectModel(Lead.name) private leadModel: Model<LeadDocument>,
+    private registry: QuizRegistryService,
+    private config: ConfigService,
+  ) {
+    // Percentiles divide by the peer count, so a group may never be empty
+    const minSample = Number(this.config.get('BENCHMARK_MIN_SAMPLE', 30));
+    if (!Number.isInteger(minSample) || minSample < 1) {
+      throw new Error('BENCHMARK_MIN_SAMPLE must be an integer of 1 or more');
+    }
+    this.minSample = minSample;
+
+    const cacheTtlSeconds = Number(this.config.get('BENCHMARK_CACHE_TTL_SECONDS', 900));
+    if (!Number.isInteger(cacheTtlSeconds) || cacheTtlSeconds < 0) {
+      throw new Error('BENCHMARK_CACHE_TTL_SECONDS must be a whole number of seconds');
+    }
+    this.cacheTtlMs = cacheTtlSeconds * 1000;
+  }
+
+  /**
+   * Rank a result against the latest response of every other lead on the same quiz version.
+   * Tries the lead's city, then its industry, then everyone; null when even that is too small.
+   */
+  async compare(subject: BenchmarkSubject): Promise<Benchmark | null> {
+    for (const scope of this.scopesFor(subject)) {
+      const distribution = await this.distribution(scope, subject);
+      const own = await this.ownScores(scope, subject, distribution.computedAt);
+      const sampleSize = distribution.sampleSize - (own ? 1 : 0);
+      if (sampleSize < this.minSample) continue;
+
+      return {
+        scope,
+        peerLabel: this.peerLabel(scope, subject),
+        sampleSize,
+        quizVersion: subject.quizVersion,
+        totalScore: this.percentile(distribution.total, subject.totalScore, own?.totalScore),
+        pillars: Object.fromEntries(
+          PILLAR_KEYS.map((key) => {
+            const ownScore = own && this.hasPillar(own, key) ? own.pillarScores![key] : undefined;
+            const sample = this.count(distribution.pillars[key]) - (ownScore === undefined ? 0 : 1);
+            const ranked = !subject.unscoredPillars.includes(key) && sample >= this.minSample;
+            return [
+              key,
+              ranked ? this.percentile(distribution.pillars[key], subject.pillarScores[key], ownScore) : null,
+            ];
+          }),
+        ) as Record<PillarKey, number | null>,
+      };
+    }
+    return null;
+  }
+
+  private scopesFor(subject: BenchmarkSubject): BenchmarkScope[] {
+    return subject.industry === 'general' ? ['city', 'global'] : ['city', 'industry', 'global'];
+  }
+
+  /** A peer group's distribution, recomputed at most once per BENCHMARK_CACHE_TTL_SECONDS */
+  private distribution(scope: BenchmarkScope, subject: BenchmarkSubject): Promise<Distribution> {
+    const group = scope === 'city' ? subject.city.toLowerCase() : scope === 'industry' ? subject.industry : '';
+    const key = `${subject.quizVersion}:${scope}:${group}`;
+    const now = Date.now();
+
+    const cached = this.cache.get(key);
+    if (cached && cached.expiresAt > now) return cached.distribution;
+
+    const distribution = this.loadDistribution(scope, subject);
+    this.cache.set(key, { expiresAt: now + this.cacheTtlMs, distribution });
+    // Don't cache a failed load
+    distribution.catch(() => this.cache.delete(key));
+    return distribution;
+  }
+
+  private async loadDistribution(scope: BenchmarkScope, subject: BenchmarkSubject): Promise<Distribution> {
+    const computedAt = new Date();
+    const scoredPillar = (key: PillarKey) => ({
+      $and: [
+        { $ne: [{ $type: `$pillarScores.${key}` }, 'missing'] },
+        { $not: [{ $in: [key, { $ifNull: ['$unscoredPillars', []] }] }] },
+      ],
+    });
+    const histogram = (field: string) => [{ $group: { _id: field, count: { $sum: 1 } } }];
+
+    const [facets] = await this.quizResponseModel
+      .aggregate<Record<'total' | PillarKey, { _id: number; count: number }[]>>([
+        { $match: { ...(await this.scopeMatch(scope, subject)), quizVersion: subject.quizVersion } },
+        // One result per peer: their latest attempt (served by the quizVersion/leadId/completedAt index)
+        { $sort: { leadId: 1, completedAt: -1 } },
+        {
+          $group: {
+            _id: '$leadId',
+            totalScore: { $first: '$totalScore' },
+            pillarScores: { $first: '$pillarScores' },
+            unscoredPillars: { $first: '$unscoredPillars' },
+          },
+        },
+        {
+          $facet: {
+            total: histogram('$totalScore'),
+            ...Object.fromEntries(
+              PILLAR_KEYS.map((key) => [
+                key,
+                [{ $match: { $expr: scoredPillar(key) } }, ...histogram(`$pillarScores.${key}`)],
+              ]),
+            ),
+          },
+        },
+      ])
+      .allowDiskUse(true);
+
+    const toHistogram = (rows: { _id: number; count: number }[]): Histogram =>
+      new Map(rows.map((row) => [row._id, row.count]));
+    const total = toHistogram(facets.total);
+    return {
+      computedAt,
+      sampleSize: this.count(total),
+      total,
+      pillars: Object.fromEntries(PILLAR_KEYS.map((key) => [key, toHistogram(facets[key])])) as Record<
+        PillarKey,
+        Histogram
+      >,
+    };
+  }
+
+  /** Peers are matched by lead (city) or by response (industry, global); the subject counts as one of them */
+  private async scopeMatch(
+    scope: BenchmarkScope,
+    subject: BenchmarkSubject,
+  ): Promise<FilterQuery<QuizResponseDocument>> {
+    switch (scope) {
+      case 'city': {
+        const city = exactMatchPattern(subject.city);
+        return { leadId: { $in: await this.leadModel.distinct('_id', { city }) } };
+      }
+      case 'industry':
+        return { industry: subject.industry };
+      case 'global':
+        return {};
+    }
+  }
+
+  /**
+   * The subject's response that the distribution counted for them, if any: their latest one in the
+   * group as of when it was computed. It is taken back out so a lead is never ranked against itself.
+   */
+  private async ownScores(
+    scope: BenchmarkScope,
+    subject: BenchmarkSubject,
+    computedAt: Date,
+  ): Promise<OwnScores | null> {
+    return this.quizResponseModel
+      .findOne(
+        {
+          leadId: subject.leadId,
+          quizVersion: subject.quizVersion,
+          completedAt: { $lte: computedAt },
+          ...(scope === 'industry' ? { industry: subject.industry } : {}),
+        },
+        { totalScore: 1, pillarScores: 1, unscoredPillars: 1 },
+      )
+      .sort({ completedAt: -1 })
+      .lean<OwnScores>();
+  }
+
+  private hasPillar(scores: OwnScores, key: PillarKey): boolean {
+    return scores.pillarScores?.[key] !== undefined && !(scores.unscoredPillars ?? []).includes(key);
+  }
+
+  private peerLabel(scope: BenchmarkScope, subject: BenchmarkSubject): string {
+    switch (scope) {
+      case 'city':
+        return `businesses in ${subject.city}`;
+      case 'industry':
+        return this.registry.variant(subject.quizVersion, subject.industry).peerLabel;
+      case 'global':
+        return "businesses we've scored";
+    }
+  }
+
+  private count(histogram: Histogram): number {
+    let count = 0;
+    for (const n of histogram.values()) count += n;
+    return count;
+  }
+
+  /** Share of peers scoring strictly lower, leaving out the subject's own counted score */
+  private percentile(histogram: Histogram, score: number, ownScore?: number): number {
+    let below = 0;
+    for (const [value, n] of histogram) {
+      if (value < score) below += n;
+    }
+    let sampleSize = this.count(histogram);
+    if (ownScore !== undefined) {
+      sampleSize -= 1;
+      if (ownScore < score) below -= 1;
+    }
+    return Math.round((below / sampleSize) * 100);
+  }
+}
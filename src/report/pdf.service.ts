@@ -5,20 +5,52 @@ import { PDFDocument, PDFDict, PDFName, PDFFont, PDFString, PDFArray, cmyk, gray
 import * as fontkit from '@pdf-lib/fontkit';
 import { inflateSync } from 'zlib';
 import type { PillarScores, PillarKey, TierKey } from '../common/types/scoring';
-import { pillars } from '../common/config/pillars';
-import { tiers } from '../common/config/tiers';
+import type { IndustryKey } from '../common/types/quiz';
+import { QuizRegistryService } from '../common/quiz-registry/quiz-registry.service';
+import { ScoringService } from '../common/scoring/scoring.service';
+import type { Benchmark } from './benchmark.service';
+import type { ActionPlanItem, Rating } from '../common/types/recommendation';
 
 export interface PdfData {
+  quizVersion: string;
+  industry: IndustryKey;
   businessName: string;
   city: string;
   totalScore: number;
   tier: TierKey;
   pillarScores: PillarScores;
+  pillarMaxima: PillarScores;
+  unscoredPillars: PillarKey[];
+  /** The lead's previous attempt, for the "compared to your last scorecard" page */
+  previous?: {
+    completedAt: Date;
+    totalScore: number;
+    pillarScores: PillarScores;
+    pillarMaxima: PillarScores;
+    unscoredPillars: PillarKey[];
+  };
+  /** Percentile rankings against peers, when enough peers exist */
+  benchmark?: Benchmark;
+  /** Ranked recommendations; the top items that fit get their own page */
+  actionPlan: ActionPlanItem[];
 }
 
 /** Page width in PDF points (US Letter). */
 const PAGE_WIDTH = 595.275;
 
+/** Page height in PDF points, used for pages added to the template. */
+const PAGE_HEIGHT = 841.89;
+
+/** Focus areas named in the page 7 sentence; more would overflow its centred line. */
+const PAGE7_FOCUS_AREAS = 2;
+
+/** Template colours reused on added pages. */
+const DARK = cmyk(0.732, 0.672, 0.657, 0.82);
+const BLUE = cmyk(0.874, 0.526, 0, 0);
+const MUTED = cmyk(0.55, 0.3, 0.15, 0.2);
+const POSITIVE = cmyk(0.83, 0, 0.52, 0.23);
+const NEGATIVE = cmyk(0, 0.72, 0.72, 0.06);
+
 /** All placeholder keys. */
 const ALL_PLACEHOLDERS = [
   '{{Business_Name}}',
@@ -105,7 +137,10 @@ export class PdfService implements OnModuleInit {
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
   private parsedFonts: Record<string, any> | null = null;
 
-  constructor() {}
+  constructor(
+    private registry: QuizRegistryService,
+    private scoringService: ScoringService,
+  ) {}
 
   /** Pre-warm template, fonts, parsed fontkit objects, and pre-baked template at startup. */
   async onModuleInit(): Promise<void> {
@@ -240,8 +275,13 @@ export class PdfService implements OnModuleInit {
     const templateBytes = this.preBakedTemplate!;
     const fontBuffers = await this.getFontBuffers();
 
+    const { pillars, tiers } = this.registry.resolve(data.quizVersion, data.industry);
     const tierData = tiers[data.tier];
-    const lowestPillar = this.getLowestPillar(data.pillarScores);
+    const lowestPillar = this.scoringService.getLowestPillar(data);
+    const focusAreas = this.scoringService
+      .getFocusAreas(data, PAGE7_FOCUS_AREAS)
+      .map((area) => pillars[area.pillar].name);
+    if (!focusAreas.length) focusAreas.push(pillars[lowestPillar].name);
 
     const replacements: Record<string, string> = {
       '{{Business_Name}}': data.businessName,
@@ -250,15 +290,15 @@ export class PdfService implements OnModuleInit {
       '{{Total_Score}}': String(data.totalScore),
       '{{Segment_Name}}': tierData.name,
       '{{Segment_One_Liner}}': tierData.summary,
-      '{{Visibility_Score}}': `${data.pillarScores.visibility}/20`,
-      '{{Conversion_Score}}': `${data.pillarScores.conversion}/20`,
-      '{{Reputation_Score}}': `${data.pillarScores.reputation}/20`,
-      '{{Marketing_Score}}': `${data.pillarScores.marketing}/20`,
-      '{{Tracking_Score}}': `${data.pillarScores.tracking}/20`,
+      '{{Visibility_Score}}': this.formatPillarScore(data, 'visibility'),
+      '{{Conversion_Score}}': this.formatPillarScore(data, 'conversion'),
+      '{{Reputation_Score}}': this.formatPillarScore(data, 'reputation'),
+      '{{Marketing_Score}}': this.formatPillarScore(data, 'marketing'),
+      '{{Tracking_Score}}': this.formatPillarScore(data, 'tracking'),
       '{{Lowest_Pillar_Name}}': pillars[lowestPillar].name,
       '{{Lowest_Pillar_Impact_Statement}}': pillars[lowestPillar].impactStatement,
       '{{Segment_Description_Block}}': tierData.descriptionBlock,
-      '{{Primary_Focus_Area}}': pillars[lowestPillar].name,
+      '{{Primary_Focus_Area}}': focusAreas[0],
     };
 
     const pdfDoc = await PDFDocument.load(templateBytes, {
@@ -466,7 +506,7 @@ export class PdfService implements OnModuleInit {
     this.drawPage2Score(pages[1], fonts, replacements['{{Total_Score}}']);
 
     // Draw page 3 dots with dynamic opacity
-    this.drawPage3Dots(pages[2], data.pillarScores);
+    this.drawPage3Dots(pages[2], data.pillarScores, data.pillarMaxima);
 
     // Draw page 4 content with vertical centering
     this.drawPage4Content(
@@ -481,12 +521,25 @@ export class PdfService implements OnModuleInit {
       pages[6],
       fonts,
       replacements['{{Business_Name}}'],
-      replacements['{{Primary_Focus_Area}}'],
+      focusAreas,
     );
 
     // Add clickable link on page 7 button
     this.addPage7Link(pdfDoc, pages[6]);
 
+    // Returning leads: comparison page before the closing page
+    if (data.previous) {
+      this.drawComparisonPage(pdfDoc, fonts, data, pillars);
+    }
+
+    if (data.benchmark) {
+      this.drawBenchmarkPage(pdfDoc, fonts, data.benchmark, pillars);
+    }
+
+    if (data.actionPlan.length) {
+      this.drawActionPlanPage(pdfDoc, fonts, data.actionPlan);
+    }
+
     const pdfBytes = await pdfDoc.save({
       objectsPerTick: Infinity,
       addDefaultPage: false,
@@ -755,7 +808,7 @@ export class PdfService implements OnModuleInit {
     page: ReturnType<PDFDocument['getPages']>[0],
     fonts: Record<FontKey, PDFFont>,
     businessName: string,
-    primaryFocus: string,
+    focusAreas: string[],
   ): void {
     const fontSize = 16;
     const color = cmyk(0.732, 0.672, 0.657, 0.82);
@@ -770,9 +823,13 @@ export class PdfService implements OnModuleInit {
       { text: ' typically grow fastest by', font: regular },
     ];
 
+    // "fixing A first." / "fixing A and B first."
     const line2 = [
       { text: 'fixing ', font: regular },
-      { text: primaryFocus, font: bold },
+      ...focusAreas.flatMap((name, i) => [
+        ...(i === 0 ? [] : [{ text: i === focusAreas.length - 1 ? ' and ' : ', ', font: regular }]),
+        { text: name, font: bold },
+      ]),
       { text: ' first.', font: regular },
     ];
 
@@ -843,6 +900,7 @@ export class PdfService implements OnModuleInit {
   private drawPage3Dots(
     page: ReturnType<PDFDocument['getPages']>[0],
     pillarScores: PillarScores,
+    pillarMaxima: PillarScores,
   ): void {
     const dotColor = cmyk(0.874, 0.526, 0, 0);
     const radius = 4.645;
@@ -857,8 +915,7 @@ export class PdfService implements OnModuleInit {
     ];
 
     for (const { pillar, y } of dotPositions) {
-      const score = pillarScores[pillar];
-      const opacity = this.getScoreOpacity(score);
+      const opacity = this.getScoreOpacity(pillarScores[pillar], pillarMaxima[pillar]);
       page.drawCircle({
         x: centerX,
         y,
@@ -870,10 +927,11 @@ export class PdfService implements OnModuleInit {
     }
   }
 
-  /** Map a pillar score to dot opacity. */
-  private getScoreOpacity(score: number): number {
-    if (score >= 16) return 1.0;
-    if (score >= 11) return 0.75;
+  /** Map a pillar score (as a share of its maximum) to dot opacity. */
+  private getScoreOpacity(score: number, max: number): number {
+    const ratio = max > 0 ? score / max : 0;
+    if (ratio >= 0.8) return 1.0;
+    if (ratio >= 0.55) return 0.75;
     return 0.5;
   }
 
@@ -960,6 +1018,232 @@ export class PdfService implements OnModuleInit {
     }
   }
 
+  // ---------------------------------------------------------------------------
+  // Added pages — drawn from scratch, inserted before the closing page
+  // ---------------------------------------------------------------------------
+
+  /** Insert a blank page before the closing page and draw its heading. Returns the page and next y. */
+  private addSupplementPage(
+    pdfDoc: PDFDocument,
+    fonts: Record<FontKey, PDFFont>,
+    heading: string,
+    subheading: string,
+  ): { page: ReturnType<PDFDocument['getPages']>[0]; y: number } {
+    const page = pdfDoc.insertPage(pdfDoc.getPageCount() - 1, [PAGE_WIDTH, PAGE_HEIGHT]);
+
+    const headingSize = 30;
+    const headingLines = this.wrapText(heading, fonts.archivoExtraBold, headingSize, PAGE_WIDTH - 120);
+    let y = PAGE_HEIGHT - 110;
+    for (const line of headingLines) {
+      page.drawText(line, { x: 60, y, size: headingSize, font: fonts.archivoExtraBold, color: DARK });
+      y -= headingSize * 1.15;
+    }
+
+    page.drawText(subheading, { x: 60, y: y - 4, size: 14, font: fonts.robotoRegular, color: MUTED });
+    page.drawRectangle({ x: 60, y: y - 24, width: PAGE_WIDTH - 120, height: 1.5, color: BLUE });
+
+    return { page, y: y - 64 };
+  }
+
+  /** "Compared to your last scorecard": previous vs current total and pillar scores. */
+  private drawComparisonPage(
+    pdfDoc: PDFDocument,
+    fonts: Record<FontKey, PDFFont>,
+    data: PdfData,
+    pillarConfigs: Record<PillarKey, { name: string }>,
+  ): void {
+    const previous = data.previous!;
+    const { page, y: startY } = this.addSupplementPage(
+      pdfDoc,
+      fonts,
+      'Compared to Your Last Scorecard',
+      `Previous scorecard: ${this.formatDate(previous.completedAt)}`,
+    );
+
+    const columns = { label: 60, previous: 330, current: 420, change: 535 };
+    const rowSize = 16;
+    const rowGap = 40;
+    let y = startY;
+
+    // Column headers
+    for (const [text, x] of [['Previous', columns.previous], ['Now', columns.current], ['Change', columns.change]] as const) {
+      const w = fonts.robotoMedium.widthOfTextAtSize(text, 12);
+      page.drawText(text, { x: x - w, y, size: 12, font: fonts.robotoMedium, color: MUTED });
+    }
+    y -= rowGap;
+
+    const rows: { label: string; before: string; now: string; change: number | null; emphasis: boolean }[] = [
+      {
+        label: 'Overall Score',
+        before: String(previous.totalScore),
+        now: String(data.totalScore),
+        change: data.totalScore - previous.totalScore,
+        emphasis: true,
+      },
+    ];
+    for (const key of Object.keys(data.pillarScores) as PillarKey[]) {
+      const unscored = data.unscoredPillars.includes(key) || previous.unscoredPillars.includes(key);
+      rows.push({
+        label: pillarConfigs[key].name,
+        before: previous.unscoredPillars.includes(key)
+          ? 'N/A'
+          : `${previous.pillarScores[key]}/${previous.pillarMaxima[key]}`,
+        now: this.formatPillarScore(data, key),
+        change: unscored
+          ? null
+          : this.scoringService.pillarChange(
+              data.pillarScores[key],
+              data.pillarMaxima[key],
+              previous.pillarScores[key],
+              previous.pillarMaxima[key],
+            ),
+        emphasis: false,
+      });
+    }
+
+    for (const row of rows) {
+      const labelFont = row.emphasis ? fonts.archivoExtraBold : fonts.robotoRegular;
+      page.drawText(row.label, { x: columns.label, y, size: rowSize, font: labelFont, color: DARK });
+
+      for (const [text, x] of [[row.before, columns.previous], [row.now, columns.current]] as const) {
+        const w = fonts.robotoBold.widthOfTextAtSize(text, rowSize);
+        page.drawText(text, { x: x - w, y, size: rowSize, font: fonts.robotoBold, color: DARK });
+      }
+
+      const changeText = row.change === null ? '—' : row.change > 0 ? `+${row.change}` : String(row.change);
+      const changeColor = row.change === null || row.change === 0 ? MUTED : row.change > 0 ? POSITIVE : NEGATIVE;
+      const changeW = fonts.robotoBold.widthOfTextAtSize(changeText, rowSize);
+      page.drawText(changeText, { x: columns.change - changeW, y, size: rowSize, font: fonts.robotoBold, color: changeColor });
+
+      page.drawRectangle({ x: 60, y: y - 14, width: PAGE_WIDTH - 120, height: 0.5, color: MUTED, opacity: 0.4 });
+      y -= rowGap;
+    }
+
+    const improved = data.totalScore - previous.totalScore;
+    const summary = improved > 0
+      ? `Your overall score is up ${improved} points since your last scorecard. Keep building on what's working.`
+      : improved < 0
+        ? `Your overall score is down ${-improved} points since your last scorecard. Focus on the pillars that slipped first.`
+        : 'Your overall score is unchanged since your last scorecard. Small fixes in your weakest pillar will get things moving.';
+    const summaryLines = this.wrapText(summary, fonts.robotoRegular, 14, PAGE_WIDTH - 120);
+    y -= 10;
+    for (const line of summaryLines) {
+      page.drawText(line, { x: 60, y, size: 14, font: fonts.robotoRegular, color: DARK });
+      y -= 14 * 1.35;
+    }
+  }
+
+  /** "How you compare": percentile bars for the total and each pillar against peers. */
+  private drawBenchmarkPage(
+    pdfDoc: PDFDocument,
+    fonts: Record<FontKey, PDFFont>,
+    benchmark: Benchmark,
+    pillarConfigs: Record<PillarKey, { name: string }>,
+  ): void {
+    const { page, y: startY } = this.addSupplementPage(
+      pdfDoc,
+      fonts,
+      'How You Compare',
+      `Ranked against ${benchmark.sampleSize} ${benchmark.peerLabel}`,
+    );
+
+    const barX = 250;
+    const barWidth = PAGE_WIDTH - 60 - barX - 70;
+    const rowSize = 16;
+    const rowGap = 48;
+    let y = startY;
+
+    const rows: { label: string; percentile: number | null; emphasis: boolean }[] = [
+      { label: 'Overall Score', percentile: benchmark.totalScore, emphasis: true },
+      ...(Object.keys(benchmark.pillars) as PillarKey[]).map((key) => ({
+        label: pillarConfigs[key].name,
+        percentile: benchmark.pillars[key],
+        emphasis: false,
+      })),
+    ];
+
+    for (const row of rows) {
+      const labelFont = row.emphasis ? fonts.archivoExtraBold : fonts.robotoRegular;
+      page.drawText(row.label, { x: 60, y, size: rowSize, font: labelFont, color: DARK });
+
+      page.drawRectangle({ x: barX, y: y - 2, width: barWidth, height: 12, color: MUTED, opacity: 0.2 });
+      if (row.percentile !== null && row.percentile > 0) {
+        page.drawRectangle({ x: barX, y: y - 2, width: barWidth * (row.percentile / 100), height: 12, color: BLUE });
+      }
+
+      const text = row.percentile === null ? 'N/A' : `${row.percentile}%`;
+      const w = fonts.robotoBold.widthOfTextAtSize(text, rowSize);
+      page.drawText(text, { x: PAGE_WIDTH - 60 - w, y, size: rowSize, font: fonts.robotoBold, color: DARK });
+      y -= rowGap;
+    }
+
+    const strongest = rows
+      .filter((row) => !row.emphasis && row.percentile !== null)
+      .sort((a, b) => b.percentile! - a.percentile!)[0];
+    const sentences = [
+      `Each bar shows the share of ${benchmark.peerLabel} you outscore.`,
+      strongest
+        ? `Your ${strongest.label.toLowerCase()} score beats ${strongest.percentile}% of ${benchmark.peerLabel}.`
+        : '',
+      'The Starter Audit pinpoints exactly what the businesses ahead of you are doing differently — and how to overtake them.',
+    ].filter(Boolean);
+
+    y -= 10;
+    for (const sentence of sentences) {
+      for (const line of this.wrapText(sentence, fonts.robotoRegular, 14, PAGE_WIDTH - 120)) {
+        page.drawText(line, { x: 60, y, size: 14, font: fonts.robotoRegular, color: DARK });
+        y -= 14 * 1.35;
+      }
+      y -= 8;
+    }
+  }
+
+  /** "Your action plan": the highest-ranked recommendations that fit on one page. */
+  private drawActionPlanPage(
+    pdfDoc: PDFDocument,
+    fonts: Record<FontKey, PDFFont>,
+    actionPlan: ActionPlanItem[],
+  ): void {
+    const { page, y: startY } = this.addSupplementPage(
+      pdfDoc,
+      fonts,
+      'Your Action Plan',
+      'Start at the top: highest priority and impact first',
+    );
+
+    const textX = 100;
+    const textWidth = PAGE_WIDTH - textX - 60;
+    const titleSize = 15;
+    const detailSize = 11.5;
+    const metaSize = 10;
+    const bottom = 70;
+    const label = (rating: Rating) => rating.charAt(0).toUpperCase() + rating.slice(1);
+    let y = startY;
+
+    for (const item of actionPlan) {
+      const titleLines = this.wrapText(item.title, fonts.robotoBold, titleSize, textWidth);
+      const detailLines = this.wrapText(item.detail, fonts.robotoRegular, detailSize, textWidth);
+      const height =
+        titleLines.length * titleSize * 1.2 + detailLines.length * detailSize * 1.35 + metaSize + 26;
+      if (y - height < bottom) break;
+
+      page.drawText(String(item.rank), { x: 60, y: y - 4, size: 24, font: fonts.archivoExtraBold, color: BLUE });
+
+      for (const line of titleLines) {
+        page.drawText(line, { x: textX, y, size: titleSize, font: fonts.robotoBold, color: DARK });
+        y -= titleSize * 1.2;
+      }
+      y -= 2;
+      for (const line of detailLines) {
+        page.drawText(line, { x: textX, y, size: detailSize, font: fonts.robotoRegular, color: DARK });
+        y -= detailSize * 1.35;
+      }
+      const meta = `Priority: ${label(item.priority)}     Impact: ${label(item.impact)}     Effort: ${label(item.effort)}`;
+      page.drawText(meta, { x: textX, y: y - 2, size: metaSize, font: fonts.robotoMedium, color: MUTED });
+      y -= metaSize + 24;
+    }
+  }
+
   /** Add a clickable link annotation on the page 7 CTA button. */
   private addPage7Link(
     pdfDoc: PDFDocument,
@@ -1073,10 +1357,10 @@ export class PdfService implements OnModuleInit {
     return lines;
   }
 
-  private getLowestPillar(scores: PillarScores): PillarKey {
-    const entries = Object.entries(scores) as [PillarKey, number][];
-    entries.sort((a, b) => a[1] - b[1]);
-    return entries[0][0];
+  /** "15/20", or "N/A" when every question in the pillar was skipped. */
+  private formatPillarScore(data: PdfData, key: PillarKey): string {
+    if (data.unscoredPillars.includes(key)) return 'N/A';
+    return `${data.pillarScores[key]}/${data.pillarMaxima[key]}`;
   }
 
   private formatDate(date: Date): string {
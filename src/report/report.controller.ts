@@ -1,4 +1,4 @@
-import { Controller, Post, Get, Body, Param, Query, Res } from '@nestjs/common';
+import { Controller, Post, Get, Body, Param, Query, Res, Headers } from '@nestjs/common';
 import { Throttle } from '@nestjs/throttler';
 import { Response } from 'express';
 import { ReportService } from './report.service';
@@ -14,6 +14,11 @@ export class ReportController {
     return this.reportService.generate(dto.sessionId);
   }
 
+  @Get('status/:reportId')
+  async status(@Param('reportId') reportId: string, @Query('token') token: string) {
+    return this.reportService.status(reportId, token);
+  }
+
   @Get('download/:reportId')
   async download(
     @Param('reportId') reportId: string,
@@ -31,9 +36,33 @@ export class ReportController {
     res.send(pdfData);
   }
 
+  @Get('history/:reportId')
+  async history(@Param('reportId') reportId: string, @Query('token') token: string) {
+    return this.reportService.history(reportId, token);
+  }
+
+  @Get('benchmark/:reportId')
+  async benchmark(@Param('reportId') reportId: string, @Query('token') token: string) {
+    return this.reportService.benchmark(reportId, token);
+  }
+
+  @Get('action-plan/:reportId')
+  async actionPlan(@Param('reportId') reportId: string, @Query('token') token: string) {
+    return this.reportService.actionPlan(reportId, token);
+  }
+
+  @Get(':reportId')
+  async results(@Param('reportId') reportId: string, @Query('token') token: string) {
+    return this.reportService.results(reportId, token);
+  }
+
   @Post('email/:reportId')
   @Throttle({ default: { ttl: 60_000, limit: 3 } })
-  async email(@Param('reportId') reportId: string, @Body('token') token: string) {
-    return this.reportService.emailReport(reportId, token);
+  async email(
+    @Param('reportId') reportId: string,
+    @Body('token') token: string,
+    @Headers('idempotency-key') idempotencyKey?: string,
+  ) {
+    return this.reportService.emailReport(reportId, token, idempotencyKey);
   }
 }
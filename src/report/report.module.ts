@@ -4,10 +4,13 @@ import { Report, ReportSchema } from './report.schema';
 import { ReportController } from './report.controller';
 import { ReportService } from './report.service';
 import { PdfService } from './pdf.service';
+import { BenchmarkService } from './benchmark.service';
 
 import { EmailModule } from '../email/email.module';
 import { QuizModule } from '../quiz/quiz.module';
 import { LeadModule } from '../lead/lead.module';
+import { JobModule } from '../job/job.module';
+import { NurtureModule } from '../nurture/nurture.module';
 
 @Module({
   imports: [
@@ -15,8 +18,11 @@ import { LeadModule } from '../lead/lead.module';
     EmailModule,
     QuizModule,
     LeadModule,
+    JobModule,
+    NurtureModule,
   ],
   controllers: [ReportController],
-  providers: [ReportService, PdfService],
+  providers: [ReportService, PdfService, BenchmarkService],
+  exports: [MongooseModule],
 })
 export class ReportModule {}
@@ -1,8 +1,42 @@
 import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
 import { HydratedDocument } from 'mongoose';
+import type { Benchmark } from './benchmark.service';
 
 export type ReportDocument = HydratedDocument<Report>;
 
+/**
+ * `suppressed`: the recipient unsubscribed, so the email was not sent. After `sent`, the provider's
+ * delivery webhooks move it on to `delivered`, `bounced` or `complained` (marked as spam).
+ */
+export type EmailStatus =
+  | 'pending'
+  | 'sent'
+  | 'failed'
+  | 'skipped'
+  | 'suppressed'
+  | 'delivered'
+  | 'bounced'
+  | 'complained';
+
+export const EMAIL_STATUSES: EmailStatus[] = [
+  'pending',
+  'sent',
+  'failed',
+  'skipped',
+  'suppressed',
+  'delivered',
+  'bounced',
+  'complained',
+];
+
+/** Statuses only a delivery webhook sets; each means the email was sent */
+export const DELIVERED_EMAIL_STATUSES: EmailStatus[] = ['delivered', 'bounced', 'complained'];
+
+/** A report is claimed as `generating` before its PDF is rendered, then marked `ready` or `failed` */
+export type ReportStatus = 'generating' | 'ready' | 'failed';
+
+export const REPORT_STATUSES: ReportStatus[] = ['generating', 'ready', 'failed'];
+
 @Schema({ timestamps: true })
 export class Report {
   @Prop({ type: String, required: true })
@@ -14,21 +48,47 @@ export class Report {
   @Prop({ required: true })
   leadId: string;
 
-  @Prop({ type: Buffer, required: true })
-  pdfData: Buffer;
+  @Prop({
+    type: String,
+    enum: REPORT_STATUSES,
+    default: 'ready',
+  })
+  status: ReportStatus;
 
+  /** When the current generation attempt started; a claim `generating` for over 15 minutes can be taken over */
   @Prop({ required: true })
-  fileSizeBytes: number;
+  claimedAt: Date;
 
-  @Prop({ required: true })
-  generatedAt: Date;
+  @Prop()
+  failureReason?: string;
+
+  // Set once the report is ready
+  @Prop({ type: Buffer })
+  pdfData?: Buffer;
+
+  @Prop()
+  fileSizeBytes?: number;
+
+  @Prop()
+  generatedAt?: Date;
+
+  /** Peer benchmark as of generation; null when no peer group was large enough */
+  @Prop({ type: Object, default: undefined })
+  benchmark?: Benchmark | null;
 
   @Prop({
     type: String,
-    enum: ['pending', 'sent', 'failed', 'skipped'],
+    enum: EMAIL_STATUSES,
     default: 'pending',
   })
-  emailStatus: 'pending' | 'sent' | 'failed' | 'skipped';
+  emailStatus: EmailStatus;
+
+  /** First open and first click of the report email, from the provider's webhooks */
+  @Prop()
+  emailOpenedAt?: Date;
+
+  @Prop()
+  emailClickedAt?: Date;
 
   @Prop({ type: Number, default: 0 })
   downloadCount: number;
@@ -1,20 +1,85 @@
-import { Injectable, Logger, NotFoundException, ForbiddenException } from '@nestjs/common';
+import {
+  Injectable,
+  Logger,
+  NotFoundException,
+  ForbiddenException,
+  ConflictException,
+  BadRequestException,
+  OnModuleInit,
+  OnApplicationBootstrap,
+} from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
 import { InjectModel } from '@nestjs/mongoose';
-import { Model } from 'mongoose';
-import { Report, ReportDocument } from './report.schema';
+import { Model, ProjectionType } from 'mongoose';
+import { DELIVERED_EMAIL_STATUSES, Report, ReportDocument, ReportStatus } from './report.schema';
 import { QuizResponse, QuizResponseDocument } from '../quiz/quiz-response.schema';
 import { Lead, LeadDocument } from '../lead/lead.schema';
-import { PdfService } from './pdf.service';
+import { PdfService, PdfData } from './pdf.service';
+import { BenchmarkService, Benchmark } from './benchmark.service';
+import { QuizService, QuizAttemptSummary } from '../quiz/quiz.service';
 import { EmailService } from '../email/email.service';
-import { ScoringService } from '../common/scoring/scoring.service';
 import { EncryptionService } from '../common/encryption/encryption.service';
 import { IdService } from '../common/id/id.service';
-import type { AnswerKey } from '../common/types/quiz';
-import type { TierKey } from '../common/types/scoring';
+import { isDuplicateKeyError } from '../common/mongo/query-helpers';
+import { reportDownloadUrl } from '../common/links/report-links';
+import { QuizRegistryService } from '../common/quiz-registry/quiz-registry.service';
+import { ScoringService } from '../common/scoring/scoring.service';
+import { RecommendationService } from '../common/recommendation/recommendation.service';
+import { JobQueueService } from '../job/job-queue.service';
+import { NurtureService } from '../nurture/nurture.service';
+import type { PillarKey, ScoringResult, TierData, TierKey } from '../common/types/scoring';
+import type { IndustryKey } from '../common/types/quiz';
+import type { ActionPlanItem } from '../common/types/recommendation';
+
+/** The scorecard as JSON: the same content as the PDF */
+export interface ReportResults {
+  reportId: string;
+  sessionId: string;
+  generatedAt: Date;
+  completedAt: Date;
+  quizVersion: string;
+  industry: IndustryKey;
+  businessName: string;
+  city: string;
+  totalScore: number;
+  /** Tier copy (with industry wording) including summary, description, bullets and CTAs */
+  tier: TierData;
+  /** `score` is null for pillars where every question was skipped or not applicable */
+  pillars: { key: PillarKey; name: string; score: number | null; max: number; impactStatement: string }[];
+  lowestPillar: { key: PillarKey; name: string; impactStatement: string };
+  /** Up to three pillars to work on, weakest first, with ties broken by business-impact priority */
+  focusAreas: { key: PillarKey; name: string; score: number; max: number }[];
+  previous: PdfData['previous'] | null;
+  benchmark: Benchmark | null;
+  actionPlan: ActionPlanItem[];
+}
+
+export interface GenerateReportResult {
+  reportId: string;
+  token: string;
+  status: ReportStatus;
+  /** Generation job to poll at GET /jobs/:jobId; null when the report was already ready */
+  jobId: string | null;
+  jobToken: string | null;
+}
+
+interface GenerateReportPayload {
+  reportId: string;
+  claimedAt: string; // the claim this job renders; a newer claim makes it a no-op
+}
+
+interface SendReportEmailPayload {
+  reportId: string;
+}
+
+/**
+ * A claim still `generating` after this long is taken to be stuck (its job was lost or never
+ * finished) and can be claimed again; the old job's claim no longer matches, so it does nothing
+ */
+const CLAIM_TIMEOUT_MS = 15 * 60 * 1000;
 
 @Injectable()
-export class ReportService {
+export class ReportService implements OnModuleInit, OnApplicationBootstrap {
   private readonly logger = new Logger(ReportService.name);
 
   constructor(
@@ -22,18 +87,73 @@ export class ReportService {
     @InjectModel(QuizResponse.name) private quizResponseModel: Model<QuizResponseDocument>,
     @InjectModel(Lead.name) private leadModel: Model<LeadDocument>,
     private pdfService: PdfService,
+    private benchmarkService: BenchmarkService,
     private emailService: EmailService,
-    private scoring: ScoringService,
+    private quizService: QuizService,
     private encryption: EncryptionService,
     private id: IdService,
+    private registry: QuizRegistryService,
+    private scoringService: ScoringService,
+    private recommendationService: RecommendationService,
+    private jobQueue: JobQueueService,
+    private nurtureService: NurtureService,
     private config: ConfigService,
   ) {}
 
-  async generate(sessionId: string): Promise<{ reportId: string; token: string }> {
-    // Check if report already exists (dedup by sessionId)
-    const existing = await this.reportModel.findOne({ sessionId });
+  onModuleInit(): void {
+    this.jobQueue.register<GenerateReportPayload>('generate_report', {
+      run: (payload) => this.runGenerateReport(payload),
+      onDead: async ({ reportId, claimedAt }, error) => {
+        await this.reportModel.updateOne(
+          { _id: reportId, claimedAt: new Date(claimedAt), status: 'generating' },
+          { status: 'failed', failureReason: error },
+        );
+      },
+    });
+    this.jobQueue.register<SendReportEmailPayload>('send_report_email', {
+      run: (payload) => this.runSendReportEmail(payload),
+      onDead: async ({ reportId }) => {
+        await this.reportModel.updateOne({ _id: reportId }, { emailStatus: 'failed' });
+      },
+    });
+  }
+
+  /**
+   * Reports stored before generation status existed were only ever written once complete, so
+   * they are `ready` and were claimed when generated
+   */
+  async onApplicationBootstrap(): Promise<void> {
+    const { modifiedCount } = await this.reportModel.updateMany(
+      { $or: [{ status: { $exists: false } }, { claimedAt: { $exists: false } }] },
+      [
+        {
+          $set: {
+            status: { $ifNull: ['$status', 'ready'] },
+            claimedAt: { $ifNull: ['$claimedAt', { $ifNull: ['$generatedAt', { $ifNull: ['$createdAt', '$$NOW'] }] }] },
+          },
+        },
+      ],
+    );
+    if (modifiedCount) {
+      this.logger.log(`Marked ${modifiedCount} existing reports as ready and claimed`);
+    }
+  }
+
+  /**
+   * Claim the session's report and queue its generation. The id is handed out once the claim is
+   * stored; clients poll the job or the report status until it is `ready`.
+   */
+  async generate(sessionId: string): Promise<GenerateReportResult> {
+    // Dedup by sessionId: a finished report is returned as is
+    const existing = await this.reportModel.findOne({ sessionId, status: 'ready' }, { _id: 1 });
     if (existing) {
-      return { reportId: existing._id, token: this.encryption.signToken(existing._id) };
+      return {
+        reportId: existing._id,
+        token: this.encryption.signToken(existing._id),
+        status: 'ready',
+        jobId: null,
+        jobToken: null,
+      };
     }
 
     const quizResponse = await this.quizResponseModel.findById(sessionId);
@@ -46,35 +166,41 @@ export class ReportService {
       throw new NotFoundException('Lead not found');
     }
 
-    // Recalculate pillar scores from stored answers
-    const result = this.scoring.calculateScore(quizResponse.answers as AnswerKey[]);
+    const claim = await this.claim(sessionId, quizResponse.leadId);
+    const token = this.encryption.signToken(claim.reportId);
+    if (claim.status === 'ready') {
+      return { reportId: claim.reportId, token, status: 'ready', jobId: null, jobToken: null };
+    }
 
-    const pdfBuffer = await this.pdfService.generatePdfBuffer({
-      businessName: this.encryption.decrypt(lead.businessName),
-      city: lead.city,
-      totalScore: quizResponse.totalScore,
-      tier: quizResponse.tier as TierKey,
-      pillarScores: result.pillarScores,
-    });
+    // Keyed by claim, so concurrent callers share one job, and a claim whose job was never
+    // enqueued (the process stopped in between) gets it on the next call
+    const job = await this.jobQueue.enqueue(
+      'generate_report',
+      { reportId: claim.reportId, claimedAt: claim.claimedAt.toISOString() },
+      { idempotencyKey: `generate_report:${claim.reportId}:${claim.claimedAt.getTime()}` },
+    );
 
-    const reportId = this.id.generateShortId();
-    const token = this.encryption.signToken(reportId);
-
-    // Fire-and-forget: write PDF to MongoDB in background
-    // User sees results page first; download happens later
-    this.reportModel.create({
-      _id: reportId,
-      sessionId,
-      leadId: quizResponse.leadId,
-      pdfData: pdfBuffer,
-      fileSizeBytes: pdfBuffer.length,
-      generatedAt: new Date(),
-      emailStatus: 'skipped',
-    }).catch((err) => {
-      this.logger.error(`Background MongoDB write failed for report ${reportId}`, err);
-    });
+    return {
+      reportId: claim.reportId,
+      token,
+      status: 'generating',
+      jobId: job._id,
+      jobToken: this.jobQueue.signToken(job._id),
+    };
+  }
+
+  /** Where a report is in generation */
+  async status(
+    reportId: string,
+    token: string,
+  ): Promise<{ reportId: string; status: ReportStatus; generatedAt: Date | null }> {
+    this.verifyAccess(reportId, token);
 
-    return { reportId, token };
+    const report = await this.reportModel.findById(reportId, { status: 1, generatedAt: 1 });
+    if (!report) {
+      throw new NotFoundException('Report not found');
+    }
+    return { reportId: report._id, status: report.status, generatedAt: report.generatedAt ?? null };
   }
 
   /** Verify a signed access token for a reportId */
@@ -86,88 +212,381 @@ export class ReportService {
 
   async download(reportId: string, token: string): Promise<{ pdfData: Buffer; fileSizeBytes: number }> {
     this.verifyAccess(reportId, token);
-    let report = await this.reportModel.findById(reportId);
-
-    // Retry once after short delay — handles race with background MongoDB write
-    if (!report) {
-      await new Promise((resolve) => setTimeout(resolve, 500));
-      report = await this.reportModel.findById(reportId);
-    }
-    if (!report) {
-      throw new NotFoundException('Report not found');
-    }
+    const report = await this.findReady(reportId);
 
     // Increment download count
     await this.reportModel.findByIdAndUpdate(reportId, { $inc: { downloadCount: 1 } });
 
     return {
-      pdfData: report.pdfData,
-      fileSizeBytes: report.fileSizeBytes,
+      pdfData: report.pdfData!,
+      fileSizeBytes: report.fileSizeBytes!,
     };
   }
 
-  async emailReport(reportId: string, token: string): Promise<{ sent: boolean }> {
+  /** Everything the PDF shows, as JSON, for rendering the scorecard on the web */
+  async results(reportId: string, token: string): Promise<ReportResults> {
     this.verifyAccess(reportId, token);
+    const report = await this.findReady(reportId, { pdfData: 0 });
 
-    let report = await this.reportModel.findById(reportId);
+    const [quizResponse, lead] = await Promise.all([
+      this.quizResponseModel.findById(report.sessionId),
+      this.leadModel.findById(report.leadId),
+    ]);
+    if (!quizResponse || !lead) {
+      throw new NotFoundException('Quiz response not found');
+    }
 
-    // Retry once after short delay — handles race with background MongoDB write
+    const benchmark = await this.storedBenchmark(report, quizResponse, lead);
+    const data = await this.buildReportData(quizResponse, lead, benchmark);
+    const { pillars, tiers } = this.registry.resolve(data.quizVersion, data.industry);
+    const lowestPillar = this.scoringService.getLowestPillar(data);
+
+    return {
+      reportId: report._id,
+      sessionId: report.sessionId,
+      generatedAt: report.generatedAt!,
+      completedAt: quizResponse.completedAt,
+      quizVersion: data.quizVersion,
+      industry: data.industry,
+      businessName: data.businessName,
+      city: data.city,
+      totalScore: data.totalScore,
+      tier: tiers[data.tier],
+      pillars: (Object.keys(data.pillarScores) as PillarKey[]).map((key) => {
+        const unscored = data.unscoredPillars.includes(key);
+        return {
+          key,
+          name: pillars[key].name,
+          score: unscored ? null : data.pillarScores[key],
+          max: data.pillarMaxima[key],
+          impactStatement: pillars[key].impactStatement,
+        };
+      }),
+      lowestPillar: {
+        key: lowestPillar,
+        name: pillars[lowestPillar].name,
+        impactStatement: pillars[lowestPillar].impactStatement,
+      },
+      focusAreas: this.scoringService.getFocusAreas(data).map((area) => ({
+        key: area.pillar,
+        name: pillars[area.pillar].name,
+        score: area.score,
+        max: area.max,
+      })),
+      previous: data.previous ?? null,
+      benchmark: data.benchmark ?? null,
+      actionPlan: data.actionPlan,
+    };
+  }
+
+  /** Score timeline of the lead this report belongs to */
+  async history(reportId: string, token: string): Promise<QuizAttemptSummary[]> {
+    this.verifyAccess(reportId, token);
+
+    const report = await this.reportModel.findById(reportId, { leadId: 1 });
     if (!report) {
-      await new Promise((resolve) => setTimeout(resolve, 500));
-      report = await this.reportModel.findById(reportId);
+      throw new NotFoundException('Report not found');
     }
+    return this.quizService.getHistory(report.leadId);
+  }
+
+  /** Ranked recommendations for this report's answers */
+  async actionPlan(reportId: string, token: string): Promise<ActionPlanItem[]> {
+    this.verifyAccess(reportId, token);
+
+    const report = await this.reportModel.findById(reportId, { sessionId: 1 });
     if (!report) {
       throw new NotFoundException('Report not found');
     }
 
-    const lead = await this.leadModel.findById(report.leadId);
-    if (!lead) {
-      throw new NotFoundException('Lead not found');
+    const quizResponse = await this.quizResponseModel.findById(report.sessionId);
+    if (!quizResponse) {
+      throw new NotFoundException('Quiz response not found');
     }
+    return this.recommendationService.buildActionPlan(this.quizService.rescore(quizResponse));
+  }
+
+  /** Percentile rankings of this report's result against peers */
+  async benchmark(reportId: string, token: string): Promise<Benchmark | null> {
+    this.verifyAccess(reportId, token);
 
-    // Fire-and-forget: send email in background, respond immediately
-    this.sendEmailInBackground(reportId, lead, report.pdfData);
+    const report = await this.reportModel.findById(reportId, { sessionId: 1, leadId: 1, benchmark: 1 });
+    if (!report) {
+      throw new NotFoundException('Report not found');
+    }
+    if (report.benchmark !== undefined) return report.benchmark;
 
-    return { sent: true };
+    const [quizResponse, lead] = await Promise.all([
+      this.quizResponseModel.findById(report.sessionId),
+      this.leadModel.findById(report.leadId),
+    ]);
+    if (!quizResponse || !lead) {
+      throw new NotFoundException('Quiz response not found');
+    }
+    return this.storedBenchmark(report, quizResponse, lead);
   }
 
-  /** Send the report email in the background without blocking the API response. */
-  private async sendEmailInBackground(
+  /**
+   * Queue the report email. Requests carrying the same idempotency key share one job,
+   * so a retried request doesn't send the email twice.
+   */
+  async emailReport(
     reportId: string,
-    lead: LeadDocument,
-    pdfData: Buffer,
-  ): Promise<void> {
+    token: string,
+    idempotencyKey?: string,
+  ): Promise<{ sent: boolean; jobId: string; jobToken: string }> {
+    this.verifyAccess(reportId, token);
+    if (idempotencyKey !== undefined && !/^[\w-]{1,100}$/.test(idempotencyKey)) {
+      throw new BadRequestException('Idempotency-Key must be 1-100 letters, digits, dashes or underscores');
+    }
+    const report = await this.findReady(reportId, { pdfData: 0 });
+
+    const job = await this.jobQueue.enqueue(
+      'send_report_email',
+      { reportId: report._id },
+      idempotencyKey ? { idempotencyKey: `send_report_email:${report._id}:${idempotencyKey}` } : {},
+    );
+    if (job.status === 'queued') {
+      await this.reportModel.updateOne({ _id: report._id }, { emailStatus: 'pending' });
+    }
+
+    return { sent: true, jobId: job._id, jobToken: this.jobQueue.signToken(job._id) };
+  }
+
+  /**
+   * Claim generation of the session's report. Inserting the claim relies on the unique sessionId
+   * index, so only one concurrent caller creates it; the rest get the same claim back. A failed
+   * report is claimed again under the same id.
+   */
+  private async claim(
+    sessionId: string,
+    leadId: string,
+  ): Promise<{ reportId: string; status: ReportStatus; claimedAt: Date }> {
+    const now = new Date();
     try {
-      const decryptedEmail = this.encryption.decrypt(lead.email);
-      const businessName = this.encryption.decrypt(lead.businessName);
-      const fullName = this.encryption.decrypt(lead.fullName);
-
-      const token = this.encryption.signToken(reportId);
-      const appUrl = this.config.get<string>('APP_URL', 'https://localmarketingaudit.com');
-      const viewReportUrl = `${appUrl}/api/report/download/${reportId}?token=${encodeURIComponent(token)}`;
-      const bookSessionUrl = this.config.get<string>('BOOKING_URL', 'https://localmarketingaudit.com/contact');
-
-      await this.reportModel.findByIdAndUpdate(reportId, { emailStatus: 'pending' });
-
-      const sent = await this.emailService.sendReportEmail({
-        toEmail: decryptedEmail,
-        businessName,
-        fullName,
-        viewReportUrl,
-        bookSessionUrl,
-        pdfBuffer: pdfData,
+      const created = await this.reportModel.create({
+        _id: this.id.generateShortId(),
+        sessionId,
+        leadId,
+        status: 'generating',
+        claimedAt: now,
+        emailStatus: 'skipped',
       });
+      return { reportId: created._id, status: 'generating', claimedAt: now };
+    } catch (err) {
+      if (!isDuplicateKeyError(err)) throw err;
+    }
 
-      await this.reportModel.findByIdAndUpdate(reportId, {
-        emailStatus: sent ? 'sent' : 'failed',
-      });
+    const reclaimed = await this.reportModel.findOneAndUpdate(
+      {
+        sessionId,
+        $or: [
+          { status: 'failed' },
+          { status: 'generating', claimedAt: { $lt: new Date(now.getTime() - CLAIM_TIMEOUT_MS) } },
+        ],
+      },
+      { $set: { status: 'generating', claimedAt: now }, $unset: { failureReason: 1 } },
+      { new: true, projection: { status: 1, claimedAt: 1 } },
+    );
+    const report = reclaimed ?? (await this.reportModel.findOne({ sessionId }, { status: 1, claimedAt: 1 }));
+    if (!report) {
+      // The claim we collided with is gone again; let the client retry
+      throw new ConflictException('Report generation is already in progress');
+    }
+    return { reportId: report._id, status: report.status, claimedAt: report.claimedAt };
+  }
 
-      if (!sent) {
-        this.logger.warn(`Email failed for report ${reportId}`);
-      }
-    } catch (err) {
-      this.logger.error(`Background email failed for report ${reportId}`, err);
-      await this.reportModel.findByIdAndUpdate(reportId, { emailStatus: 'failed' }).catch(() => {});
+  /** Job handler: render a claimed report's PDF and store it */
+  private async runGenerateReport(payload: GenerateReportPayload): Promise<{ reportId: string }> {
+    const { reportId } = payload;
+    const report = await this.reportModel.findById(reportId, { pdfData: 0 });
+    if (!report) {
+      throw new Error(`Report ${reportId} not found`);
+    }
+    // Already stored, or claimed again since this job was queued
+    if (report.status === 'ready' || report.claimedAt.getTime() !== Date.parse(payload.claimedAt)) {
+      return { reportId };
     }
+
+    const [quizResponse, lead] = await Promise.all([
+      this.quizResponseModel.findById(report.sessionId),
+      this.leadModel.findById(report.leadId),
+    ]);
+    if (!quizResponse || !lead) {
+      throw new Error(`Quiz response or lead for report ${reportId} not found`);
+    }
+
+    // Snapshot the benchmark with the PDF, so the results page shows the same ranking
+    const benchmark = await this.benchmarkFor(quizResponse, lead, this.quizService.rescore(quizResponse));
+    const data = await this.buildReportData(quizResponse, lead, benchmark);
+    const pdfBuffer = await this.pdfService.generatePdfBuffer(data);
+    await this.reportModel.updateOne(
+      { _id: reportId, claimedAt: report.claimedAt },
+      {
+        $set: {
+          status: 'ready',
+          pdfData: pdfBuffer,
+          fileSizeBytes: pdfBuffer.length,
+          generatedAt: new Date(),
+          benchmark,
+        },
+        $unset: { failureReason: 1 },
+      },
+    );
+    return { reportId };
+  }
+
+  /** Job handler: email the report PDF to the lead */
+  private async runSendReportEmail({ reportId }: SendReportEmailPayload): Promise<{ reportId: string }> {
+    const report = await this.reportModel.findById(reportId);
+    if (!report?.pdfData) {
+      throw new Error(`Report ${reportId} is not ready`);
+    }
+
+    const lead = await this.leadModel.findById(report.leadId);
+    if (!lead) {
+      throw new Error(`Lead for report ${reportId} not found`);
+    }
+
+    const quizResponse = await this.quizResponseModel.findById(report.sessionId);
+    if (!quizResponse) {
+      throw new Error(`Quiz response for report ${reportId} not found`);
+    }
+    const result = this.quizService.rescore(quizResponse);
+    const variant = this.registry.variant(quizResponse.quizVersion, quizResponse.industry);
+    const { pillars, tiers } = this.registry.resolve(quizResponse.quizVersion, quizResponse.industry);
+    const focusAreas = this.scoringService.getFocusAreas(result).map((area) => pillars[area.pillar].name);
+    const pillarScores = [
+      ...this.scoringService
+        .rankPillars(result)
+        .map((area) => ({ name: pillars[area.pillar].name, score: area.score, max: area.max })),
+      ...result.unscoredPillars.map((pillar) => ({
+        name: pillars[pillar].name,
+        score: null,
+        max: result.pillarMaxima[pillar],
+      })),
+    ];
+
+    const appUrl = this.config.get<string>('APP_URL', 'https://localmarketingaudit.com');
+    const viewReportUrl = reportDownloadUrl(appUrl, reportId, this.encryption.signToken(reportId));
+    const bookSessionUrl = this.config.get<string>('BOOKING_URL', 'https://localmarketingaudit.com/contact');
+
+    const outcome = await this.emailService.sendReportEmail({
+      toEmail: this.encryption.decrypt(lead.email),
+      leadId: lead._id,
+      reportId,
+      businessName: this.encryption.decrypt(lead.businessName),
+      fullName: this.encryption.decrypt(lead.fullName),
+      intro: variant.emailIntro,
+      focusAreas,
+      // Stored score and tier, as in the attached PDF, even if the tier table has changed since
+      score: quizResponse.totalScore,
+      tier: tiers[quizResponse.tier as TierKey],
+      pillars: pillarScores,
+      viewReportUrl,
+      bookSessionUrl,
+      pdfBuffer: report.pdfData,
+    });
+    if (outcome === 'failed') {
+      throw new Error(`Email delivery failed for report ${reportId}`);
+    }
+    if (outcome === 'suppressed') {
+      await this.reportModel.updateOne({ _id: reportId }, { emailStatus: 'suppressed' });
+      return { reportId };
+    }
+
+    // A delivery webhook may already have moved the status past `sent`
+    await this.reportModel.updateOne(
+      { _id: reportId, emailStatus: { $nin: DELIVERED_EMAIL_STATUSES } },
+      { emailStatus: 'sent' },
+    );
+
+    // The report email went out; a nurture failure must not fail the job and send it again
+    await this.nurtureService
+      .start(lead._id, report.sessionId, reportId)
+      .catch((err) => this.logger.error(`Could not start nurture sequence for lead ${lead._id}`, err));
+    return { reportId };
+  }
+
+  /** Load a report that has finished generating; 409 while it is in progress or after it failed */
+  private async findReady(reportId: string, projection?: ProjectionType<Report>): Promise<ReportDocument> {
+    const report = await this.reportModel.findById(reportId, projection);
+    if (!report) {
+      throw new NotFoundException('Report not found');
+    }
+    if (report.status === 'generating') {
+      throw new ConflictException('Report is still being generated');
+    }
+    if (report.status === 'failed') {
+      throw new ConflictException('Report generation failed; generate it again');
+    }
+    return report;
+  }
+
+  /** Rescore a response and gather everything the report shows about it */
+  private async buildReportData(
+    quizResponse: QuizResponseDocument,
+    lead: LeadDocument,
+    benchmark: Benchmark | null,
+  ): Promise<PdfData> {
+    // Recalculate pillar scores from stored answers, under the rules they were taken with
+    const result = this.quizService.rescore(quizResponse);
+
+    // Returning leads get a comparison against their previous attempt
+    const previousResponse = quizResponse.previousSessionId
+      ? await this.quizResponseModel.findById(quizResponse.previousSessionId)
+      : null;
+    const previous = previousResponse ? this.quizService.rescore(previousResponse) : null;
+
+    return {
+      quizVersion: result.quizVersion,
+      industry: quizResponse.industry,
+      businessName: this.encryption.decrypt(lead.businessName),
+      city: lead.city,
+      totalScore: quizResponse.totalScore,
+      tier: quizResponse.tier as TierKey,
+      pillarScores: result.pillarScores,
+      pillarMaxima: result.pillarMaxima,
+      unscoredPillars: result.unscoredPillars,
+      previous: previousResponse && previous
+        ? {
+            completedAt: previousResponse.completedAt,
+            totalScore: previousResponse.totalScore,
+            pillarScores: previousResponse.pillarScores ?? previous.pillarScores,
+            pillarMaxima: previous.pillarMaxima,
+            unscoredPillars: previous.unscoredPillars,
+          }
+        : undefined,
+      benchmark: benchmark ?? undefined,
+      actionPlan: this.recommendationService.buildActionPlan(result),
+    };
+  }
+
+  /** The benchmark stored at generation; reports generated before it was stored get it computed once */
+  private async storedBenchmark(
+    report: ReportDocument,
+    quizResponse: QuizResponseDocument,
+    lead: LeadDocument,
+  ): Promise<Benchmark | null> {
+    if (report.benchmark !== undefined) return report.benchmark;
+    const benchmark = await this.benchmarkFor(quizResponse, lead, this.quizService.rescore(quizResponse));
+    await this.reportModel.updateOne({ _id: report._id, benchmark: { $exists: false } }, { benchmark });
+    return benchmark;
+  }
+
+  private benchmarkFor(
+    quizResponse: QuizResponseDocument,
+    lead: LeadDocument,
+    result: ScoringResult,
+  ): Promise<Benchmark | null> {
+    return this.benchmarkService.compare({
+      leadId: lead._id,
+      city: lead.city,
+      industry: quizResponse.industry,
+      quizVersion: result.quizVersion,
+      totalScore: quizResponse.totalScore,
+      pillarScores: result.pillarScores,
+      unscoredPillars: result.unscoredPillars,
+    });
   }
 }